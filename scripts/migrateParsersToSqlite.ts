@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiskParserStorage } from '../src/storage/diskParserStorage';
+import { SqliteParserStorage } from '../src/storage/sqliteParserStorage';
+
+// Imports a directory of parser JSON files into a SQLite database; safe to run again
+async function main() {
+    const sourceDir =
+        process.argv[2] ||
+        process.env.PARSER_STORAGE_DIR ||
+        path.join(process.cwd(), 'tmp', 'parsers');
+    const databasePath =
+        process.argv[3] ||
+        process.env.PARSER_STORAGE_SQLITE_PATH ||
+        path.join(process.cwd(), 'tmp', 'parsers.db');
+
+    if (!fs.existsSync(sourceDir)) {
+        console.error(`Directory not found: ${sourceDir}`);
+        process.exit(1);
+    }
+
+    console.log(`Importing parsers from ${sourceDir} into ${databasePath}`);
+
+    const maxVersions = parseInt(process.env.PARSER_MAX_VERSIONS || '', 10);
+    const target = new SqliteParserStorage(databasePath, {
+        maxVersions: Number.isNaN(maxVersions) ? undefined : maxVersions,
+    });
+    try {
+        const summary = await target.importFrom(new DiskParserStorage(sourceDir));
+        console.log(
+            `Imported ${summary.imported} parsers with ${summary.versions} versions, ` +
+                `skipped ${summary.skipped} already present, imported ${summary.rules} URL pattern rules`
+        );
+    } catch (error) {
+        console.error(`Migration failed: ${error}`);
+        process.exit(1);
+    } finally {
+        target.close();
+    }
+}
+
+main().catch(console.error);
@@ -1,9 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { ParserService } from '../services/parserService';
+import { MAX_CANDIDATES, ParserService } from '../services/parserService';
+import { UrlPatternRuleService } from '../services/urlPatternRuleService';
 import { ApiError } from '../types/ApiError';
+import { ParserKind, ParserQuery, ParserSortField, ParserSource } from '../types';
+import { assertValidOutputSchema } from '../utils/outputSchema';
 import { logger, getErrorInfo } from '../utils/logger';
-import { getCleanedCheerioInstance } from '../utils/htmlExtractor';
-import { sanitizeParseResult } from '../utils/sanitization';
+import { decodeParserCursor, MAX_PARSER_PAGE_SIZE } from '../utils/parserQuery';
 
 const asyncHandler = <T>(
     fn: (_req: Request, _res: Response, _next: NextFunction) => Promise<T>
@@ -16,17 +18,103 @@ const asyncHandler = <T>(
     };
 };
 
-export function createRoutes(parserService: ParserService): Router {
+const PARSER_KINDS: ParserKind[] = ['javascript', 'selector-spec'];
+
+const PARSER_SOURCES: ParserSource[] = ['generated', 'healed', 'rollback'];
+
+const PARSER_SORT_FIELDS: Record<string, ParserSortField> = {
+    created_at: 'createdAt',
+    last_used_at: 'lastUsedAt',
+};
+
+const parseDateParam = (name: string, value: string): Date => {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new ApiError(400, { error: `${name} must be a date`, [name]: value });
+    }
+    return date;
+};
+
+// Reads the filters of `GET /parsers`; repeated parameters are rejected
+const parseParserQuery = (query: Request['query']): ParserQuery => {
+    const params: Record<string, string> = {};
+    for (const [name, value] of Object.entries(query)) {
+        if (typeof value !== 'string') {
+            throw new ApiError(400, { error: `${name} must be given once` });
+        }
+        params[name] = value;
+    }
+    const { domain, pattern, status, model, search, sort, limit, cursor } = params;
+
+    if (status !== undefined && !PARSER_SOURCES.includes(status as ParserSource)) {
+        throw new ApiError(400, {
+            error: `Invalid status: expected one of ${PARSER_SOURCES.join(', ')}`,
+        });
+    }
+    if (sort !== undefined && !PARSER_SORT_FIELDS[sort]) {
+        throw new ApiError(400, {
+            error: `Invalid sort: expected one of ${Object.keys(PARSER_SORT_FIELDS).join(', ')}`,
+        });
+    }
+    const pageSize = limit === undefined ? undefined : Number(limit);
+    if (
+        pageSize !== undefined &&
+        (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PARSER_PAGE_SIZE)
+    ) {
+        throw new ApiError(400, {
+            error: `limit must be an integer between 1 and ${MAX_PARSER_PAGE_SIZE}`,
+        });
+    }
+    if (cursor !== undefined) {
+        try {
+            decodeParserCursor(cursor);
+        } catch {
+            throw new ApiError(400, { error: 'Invalid cursor', code: 'INVALID_CURSOR' });
+        }
+    }
+
+    return {
+        domain,
+        pattern,
+        status: status as ParserSource | undefined,
+        model,
+        search,
+        createdFrom:
+            params.created_from === undefined
+                ? undefined
+                : parseDateParam('created_from', params.created_from),
+        createdTo:
+            params.created_to === undefined
+                ? undefined
+                : parseDateParam('created_to', params.created_to),
+        sort: sort === undefined ? undefined : PARSER_SORT_FIELDS[sort],
+        limit: pageSize,
+        cursor,
+    };
+};
+
+const parseVersionParam = (value: string): number => {
+    const version = Number(value);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new ApiError(400, { error: 'Version must be a positive integer', version: value });
+    }
+    return version;
+};
+
+export function createRoutes(
+    parserService: ParserService,
+    urlPatternRules: UrlPatternRuleService
+): Router {
     const router = Router();
 
     router.get('/health', (req: Request, res: Response) => {
-        res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+        res.json({ ...parserService.getHealth(), timestamp: new Date().toISOString() });
     });
 
     router.post(
         '/parse',
         asyncHandler(async (req: Request, res: Response) => {
-            const { shortened_url, scrape } = req.body;
+            const { shortened_url, scrape, parser_kind, schema, samples, candidates } = req.body;
 
             if (!shortened_url || !scrape) {
                 throw new ApiError(400, {
@@ -34,26 +122,85 @@ export function createRoutes(parserService: ParserService): Router {
                 });
             }
 
-            const parser = await parserService.getParser(
-                { url: shortened_url, html: scrape },
-                { no_cache: req.query.no_cache === 'true' }
-            );
+            if (parser_kind !== undefined && !PARSER_KINDS.includes(parser_kind)) {
+                throw new ApiError(400, {
+                    error: `Invalid parser_kind: expected one of ${PARSER_KINDS.join(', ')}`,
+                });
+            }
 
-            const parserFunction = new Function('$', parser.parser);
+            if (schema !== undefined) {
+                try {
+                    assertValidOutputSchema(schema);
+                } catch (error) {
+                    throw new ApiError(400, { error: getErrorInfo(error).message });
+                }
+            }
 
-            const $ = getCleanedCheerioInstance(scrape);
-            const rawResult = parserFunction($);
-            const result = sanitizeParseResult(rawResult);
+            if (
+                samples !== undefined &&
+                (!Array.isArray(samples) ||
+                    samples.some(sample => !sample?.shortened_url || !sample?.scrape))
+            ) {
+                throw new ApiError(400, {
+                    error: 'samples must be an array of objects with shortened_url and scrape',
+                });
+            }
+
+            if (
+                candidates !== undefined &&
+                (!Number.isInteger(candidates) || candidates < 1 || candidates > MAX_CANDIDATES)
+            ) {
+                throw new ApiError(400, {
+                    error: `candidates must be an integer between 1 and ${MAX_CANDIDATES}`,
+                });
+            }
+
+            const parsed = await parserService.parse(
+                {
+                    url: shortened_url,
+                    html: scrape,
+                    samples: samples?.map((sample: { shortened_url: string; scrape: string }) => ({
+                        url: sample.shortened_url,
+                        html: sample.scrape,
+                    })),
+                },
+                {
+                    no_cache: req.query.no_cache === 'true',
+                    kind: parser_kind,
+                    schema,
+                    candidates,
+                }
+            );
 
             res.json({
-                result,
-                parserCreatedAt: parser.createdAt,
-                urlPattern: parser.urlPattern,
-                cached: parser.cached,
+                result: parsed.result,
+                parserCreatedAt: parsed.createdAt,
+                parserVersion: parsed.version,
+                parserKind: parsed.kind,
+                urlPattern: parsed.urlPattern,
+                schemaHash: parsed.schemaHash,
+                parserKey: parsed.parserKey,
+                templateId: parsed.templateId,
+                matchedPattern: parsed.matchedPattern,
+                canonicalUrl: parsed.canonicalUrl,
+                cached: parsed.cached,
+                healed: parsed.healed === true,
             });
         })
     );
 
+    router.get(
+        '/pattern',
+        asyncHandler(async (req: Request, res: Response) => {
+            const { url } = req.query;
+            if (typeof url !== 'string' || !url) {
+                throw new ApiError(400, { error: 'Missing required query parameter: url' });
+            }
+
+            res.json(await parserService.explainUrlPattern(url));
+        })
+    );
+
     router.get(
         '/stats',
         asyncHandler(async (req: Request, res: Response) => {
@@ -62,19 +209,127 @@ export function createRoutes(parserService: ParserService): Router {
         })
     );
 
+    router.get(
+        '/parsers',
+        asyncHandler(async (req: Request, res: Response) => {
+            res.json(await parserService.listParsers(parseParserQuery(req.query)));
+        })
+    );
+
     router.delete(
         '/parser/:urlPattern',
         asyncHandler(async (req: Request, res: Response) => {
-            const { urlPattern } = req.params;
-            const removed = await parserService.deleteParser(decodeURIComponent(urlPattern));
+            const urlPattern = decodeURIComponent(req.params.urlPattern);
+            const parserKeys = await parserService.deleteParser(urlPattern);
 
-            if (removed) {
-                res.json({ message: 'Parser deleted successfully', urlPattern });
+            if (parserKeys.length > 0) {
+                res.json({ message: 'Parser deleted successfully', urlPattern, parserKeys });
             } else {
                 throw new ApiError(404, { error: 'Parser not found', urlPattern });
             }
         })
     );
 
+    router.get(
+        '/parser/:urlPattern/versions',
+        asyncHandler(async (req: Request, res: Response) => {
+            const urlPattern = decodeURIComponent(req.params.urlPattern);
+            const versions = await parserService.getParserVersions(urlPattern);
+
+            if (versions.length === 0) {
+                throw new ApiError(404, { error: 'Parser not found', urlPattern });
+            }
+
+            res.json({
+                urlPattern,
+                parserKey: versions[0].urlPattern,
+                currentVersion: versions[0].version,
+                versions: versions.map(v => ({
+                    version: v.version,
+                    createdAt: v.createdAt,
+                    metadata: v.metadata,
+                })),
+            });
+        })
+    );
+
+    router.get(
+        '/parser/:urlPattern/versions/:version',
+        asyncHandler(async (req: Request, res: Response) => {
+            const urlPattern = decodeURIComponent(req.params.urlPattern);
+            const version = parseVersionParam(req.params.version);
+            const parser = await parserService.getParserVersion(urlPattern, version);
+
+            if (!parser) {
+                throw new ApiError(404, { error: 'Parser version not found', urlPattern, version });
+            }
+
+            res.json(parser);
+        })
+    );
+
+    router.post(
+        '/parser/:urlPattern/versions/:version/rollback',
+        asyncHandler(async (req: Request, res: Response) => {
+            const urlPattern = decodeURIComponent(req.params.urlPattern);
+            const version = parseVersionParam(req.params.version);
+            const parser = await parserService.rollbackParser(urlPattern, version);
+
+            if (!parser) {
+                throw new ApiError(404, { error: 'Parser version not found', urlPattern, version });
+            }
+
+            res.json({
+                message: 'Parser rolled back successfully',
+                urlPattern,
+                parserKey: parser.urlPattern,
+                restoredFrom: version,
+                version: parser.version,
+            });
+        })
+    );
+
+    router.get(
+        '/url-pattern-rules',
+        asyncHandler(async (req: Request, res: Response) => {
+            res.json({ rules: await urlPatternRules.list() });
+        })
+    );
+
+    router.post(
+        '/url-pattern-rules',
+        asyncHandler(async (req: Request, res: Response) => {
+            const { host, path, template, description } = req.body;
+            res.status(201).json(
+                await urlPatternRules.create({ host, path, template, description })
+            );
+        })
+    );
+
+    router.get(
+        '/url-pattern-rules/:id',
+        asyncHandler(async (req: Request, res: Response) => {
+            res.json(await urlPatternRules.get(req.params.id));
+        })
+    );
+
+    router.put(
+        '/url-pattern-rules/:id',
+        asyncHandler(async (req: Request, res: Response) => {
+            const { host, path, template, description } = req.body;
+            res.json(
+                await urlPatternRules.update(req.params.id, { host, path, template, description })
+            );
+        })
+    );
+
+    router.delete(
+        '/url-pattern-rules/:id',
+        asyncHandler(async (req: Request, res: Response) => {
+            const change = await urlPatternRules.delete(req.params.id);
+            res.json({ message: 'URL pattern rule deleted successfully', ...change });
+        })
+    );
+
     return router;
 }
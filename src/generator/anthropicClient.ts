@@ -0,0 +1,80 @@
+import { ChatMessage, LlmClient, LlmCompletion, LlmCompletionOptions } from '../types';
+import { LlmCompletionError } from '../types/LlmCompletionError';
+import { LlmRequestError, parseRetryAfter } from '../types/LlmRequestError';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+
+interface MessagesResponse {
+    content?: Array<{ type: string; text?: string }>;
+    usage?: { input_tokens: number; output_tokens: number };
+    error?: { type: string; message: string };
+}
+
+/**
+ * Client for Anthropic-style `/v1/messages` APIs. The system prompt is sent as
+ * the top-level `system` field rather than as a message.
+ */
+export class AnthropicClient implements LlmClient {
+    public readonly provider = 'anthropic';
+    private apiKey: string | undefined;
+    private baseUrl: string;
+
+    constructor(apiKey: string | undefined, baseUrl: string = DEFAULT_BASE_URL) {
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async complete(messages: ChatMessage[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+        const system = messages
+            .filter(m => m.role === 'system')
+            .map(m => m.content)
+            .join('\n\n');
+
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'anthropic-version': API_VERSION,
+                ...(this.apiKey ? { 'x-api-key': this.apiKey } : {}),
+            },
+            body: JSON.stringify({
+                model: options.model,
+                system: system || undefined,
+                messages: messages
+                    .filter(m => m.role !== 'system')
+                    .map(m => ({ role: m.role, content: m.content })),
+                temperature: options.temperature,
+                max_tokens: options.maxTokens,
+            }),
+        }).catch(error => {
+            throw new LlmRequestError(
+                `${this.provider} request failed: ${error instanceof Error ? error.message : error}`
+            );
+        });
+
+        // Gateways in front of the API may answer errors with HTML
+        const data = (await response.json().catch(() => ({}))) as MessagesResponse;
+        if (!response.ok) {
+            throw new LlmRequestError(
+                `${response.status} ${data.error?.message || response.statusText || 'Request failed'}`,
+                response.status,
+                parseRetryAfter(response.headers.get('retry-after'))
+            );
+        }
+
+        const usage = data.usage
+            ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+            : undefined;
+
+        const content = (data.content || [])
+            .filter(block => block.type === 'text' && block.text)
+            .map(block => block.text)
+            .join('');
+        if (!content) {
+            throw new LlmCompletionError(`No content returned by ${this.provider}`, usage);
+        }
+
+        return { content, usage };
+    }
+}
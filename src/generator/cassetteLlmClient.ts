@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ChatMessage, LlmClient, LlmCompletion, LlmCompletionOptions } from '../types';
+import { logger } from '../utils/logger';
+
+const fsPromises = fs.promises;
+
+/**
+ * - `record`: call the wrapped client and save every response, overwriting older recordings
+ * - `replay`: answer from recordings only; a prompt without a recording is an error
+ * - `passthrough`: call the wrapped client and save nothing
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+export const CASSETTE_MODES: CassetteMode[] = ['record', 'replay', 'passthrough'];
+
+export interface CassetteOptions {
+    mode: CassetteMode;
+    directory: string;
+    // Not needed in replay mode
+    client?: LlmClient;
+}
+
+interface CassetteEntry {
+    key: string;
+    provider: string;
+    options: LlmCompletionOptions;
+    messages: ChatMessage[];
+    completion: LlmCompletion;
+}
+
+/**
+ * Hash identifying a completion request. Everything that can change the
+ * response is included, so a changed prompt never replays a stale recording.
+ */
+export function hashCompletionRequest(
+    messages: ChatMessage[],
+    options: LlmCompletionOptions
+): string {
+    const request = {
+        model: options.model,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+    };
+    return createHash('sha256').update(JSON.stringify(request)).digest('hex').substring(0, 16);
+}
+
+/**
+ * Records LLM completions to fixture files keyed by prompt hash and replays
+ * them, so tests that exercise parser generation run offline and deterministically.
+ */
+export class CassetteLlmClient implements LlmClient {
+    public readonly provider: string;
+    private mode: CassetteMode;
+    private directory: string;
+    private client?: LlmClient;
+
+    constructor(options: CassetteOptions) {
+        if (options.mode !== 'replay' && !options.client) {
+            throw new Error(`Cassette mode "${options.mode}" requires an LLM client`);
+        }
+
+        this.mode = options.mode;
+        this.directory = options.directory;
+        this.client = options.client;
+        this.provider = options.client?.provider || 'cassette';
+    }
+
+    async complete(messages: ChatMessage[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+        const key = hashCompletionRequest(messages, options);
+
+        if (this.mode === 'replay' || !this.client) {
+            const entry = await this.readEntry(key);
+            if (!entry) {
+                throw new Error(
+                    `No recorded LLM response for prompt ${key} in ${this.directory}; re-run in record mode to capture it`
+                );
+            }
+            return entry.completion;
+        }
+
+        const completion = await this.client.complete(messages, options);
+
+        if (this.mode === 'record') {
+            await this.writeEntry({
+                key,
+                provider: this.provider,
+                options,
+                messages,
+                completion,
+            });
+            logger.info('Recorded LLM response', { key, directory: this.directory });
+        }
+
+        return completion;
+    }
+
+    private getEntryPath(key: string): string {
+        return path.join(this.directory, `${key}.json`);
+    }
+
+    private async readEntry(key: string): Promise<CassetteEntry | null> {
+        try {
+            const data = await fsPromises.readFile(this.getEntryPath(key), 'utf8');
+            return JSON.parse(data);
+        } catch (error) {
+            if ((error as { code?: string }).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async writeEntry(entry: CassetteEntry): Promise<void> {
+        await fsPromises.mkdir(this.directory, { recursive: true });
+        await fsPromises.writeFile(
+            this.getEntryPath(entry.key),
+            `${JSON.stringify(entry, null, 2)}\n`,
+            'utf8'
+        );
+    }
+}
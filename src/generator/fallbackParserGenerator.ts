@@ -0,0 +1,51 @@
+import { GeneratedParser, ParserGenerationOptions, ParserGenerator } from '../types';
+import { ApiError } from '../types/ApiError';
+import { logger, getErrorInfo } from '../utils/logger';
+
+/**
+ * Delegates to the primary generator and falls back to a secondary one when
+ * the primary call fails (network errors, rate limits, provider outages).
+ * An `ApiError` is a deliberate rejection, such as an exhausted spend cap,
+ * and is passed through.
+ */
+export class FallbackParserGenerator implements ParserGenerator {
+    private primary: ParserGenerator;
+    private fallback: ParserGenerator;
+    private fallbackCount = 0;
+
+    constructor(primary: ParserGenerator, fallback: ParserGenerator) {
+        this.primary = primary;
+        this.fallback = fallback;
+    }
+
+    async generateParser(
+        url: string,
+        htmlText: string,
+        options: ParserGenerationOptions = {}
+    ): Promise<GeneratedParser> {
+        try {
+            return await this.primary.generateParser(url, htmlText, options);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            this.fallbackCount++;
+            logger.warn('Primary parser generator failed, using fallback generator', {
+                url,
+                ...getErrorInfo(error),
+            });
+            return await this.fallback.generateParser(url, htmlText, options);
+        }
+    }
+
+    getStats() {
+        return {
+            ...this.primary.getStats(),
+            fallbackCount: this.fallbackCount,
+        };
+    }
+
+    getCircuitStatus() {
+        return this.primary.getCircuitStatus?.();
+    }
+}
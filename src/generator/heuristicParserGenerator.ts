@@ -0,0 +1,140 @@
+import * as cheerio from 'cheerio';
+import {
+    GeneratedParser,
+    OutputSchema,
+    ParserGenerationOptions,
+    ParserGenerator,
+    ParserKind,
+    SelectorFieldSpec,
+    SelectorSpec,
+} from '../types';
+import {
+    buildElementSelector,
+    findContentBlock,
+    getCleanedCheerioInstance,
+} from '../utils/htmlExtractor';
+import { removeWhiteSpace } from '../utils/sanitization';
+
+interface FieldCandidate {
+    selector: string;
+    attribute?: string;
+}
+
+// Candidates are tried in order; the first one that yields text on the sample page wins
+const FIELD_CANDIDATES: Record<string, FieldCandidate[]> = {
+    title: [
+        { selector: 'meta[property="og:title"]', attribute: 'content' },
+        { selector: 'meta[name="twitter:title"]', attribute: 'content' },
+        { selector: 'h1' },
+        { selector: 'head > title' },
+    ],
+    author: [
+        { selector: 'meta[name="author"]', attribute: 'content' },
+        { selector: 'meta[property="article:author"]', attribute: 'content' },
+        { selector: '[itemprop="author"]' },
+        { selector: '[rel="author"]' },
+        { selector: '.author' },
+        { selector: '.byline' },
+    ],
+    description: [
+        { selector: 'meta[property="og:description"]', attribute: 'content' },
+        { selector: 'meta[name="description"]', attribute: 'content' },
+    ],
+    publishedAt: [
+        { selector: 'meta[property="article:published_time"]', attribute: 'content' },
+        { selector: 'time[datetime]', attribute: 'datetime' },
+    ],
+};
+
+/**
+ * Builds parsers deterministically from the sample page, without an LLM:
+ * metadata comes from meta tags and common markup, the body from the main
+ * content block. Used when no API key is configured and as a fallback when
+ * the LLM call fails.
+ */
+export class HeuristicParserGenerator implements ParserGenerator {
+    private totalRequests = 0;
+
+    async generateParser(
+        _url: string,
+        htmlText: string,
+        options: ParserGenerationOptions = {}
+    ): Promise<GeneratedParser> {
+        this.totalRequests++;
+
+        const { kind = 'javascript', schema } = options;
+        const $ = getCleanedCheerioInstance(htmlText);
+        const fields = this.findFields($, schema);
+
+        return { parser: this.render(fields, kind), model: 'heuristic' };
+    }
+
+    getStats() {
+        return {
+            generator: 'heuristic',
+            totalRequests: this.totalRequests,
+        };
+    }
+
+    private findFields(
+        $: cheerio.CheerioAPI,
+        schema?: OutputSchema
+    ): Record<string, FieldCandidate> {
+        const fields: Record<string, FieldCandidate> = {};
+
+        for (const [name, candidates] of Object.entries(FIELD_CANDIDATES)) {
+            const match = candidates.find(candidate => this.hasValue($, candidate));
+            if (match) {
+                fields[name] = match;
+            }
+        }
+
+        fields.content = { selector: buildElementSelector($, findContentBlock($)) };
+
+        // With a schema, only emit the fields it asks for; the rest would fail `additionalProperties`
+        const properties = schema?.properties;
+        if (properties && typeof properties === 'object') {
+            return Object.fromEntries(
+                Object.entries(fields).filter(([name]) => name in properties)
+            );
+        }
+
+        return fields;
+    }
+
+    private hasValue($: cheerio.CheerioAPI, candidate: FieldCandidate): boolean {
+        const element = $(candidate.selector).first();
+        const value = candidate.attribute ? element.attr(candidate.attribute) : element.text();
+        return removeWhiteSpace(value || '').length > 0;
+    }
+
+    private render(fields: Record<string, FieldCandidate>, kind: ParserKind): string {
+        if (kind === 'selector-spec') {
+            const spec: SelectorSpec = {
+                fields: Object.fromEntries(
+                    Object.entries(fields).map(([name, field]): [string, SelectorFieldSpec] => [
+                        name,
+                        { ...field, transforms: ['collapseWhitespace'] },
+                    ])
+                ),
+            };
+            return JSON.stringify(spec, null, 2);
+        }
+
+        const lines = Object.entries(fields).map(([name, field]) => {
+            const selector = JSON.stringify(field.selector);
+            return field.attribute
+                ? `    ${name}: attr(${selector}, ${JSON.stringify(field.attribute)}),`
+                : `    ${name}: text(${selector}),`;
+        });
+
+        return [
+            'const clean = value => (value || "").replace(/\\s+/g, " ").trim() || null;',
+            'const text = selector => clean($(selector).first().text());',
+            'const attr = (selector, name) => clean($(selector).first().attr(name));',
+            'return {',
+            ...lines,
+            '};',
+        ].join('\n');
+    }
+}
@@ -0,0 +1,293 @@
+import { logger, getErrorInfo } from '../utils/logger';
+import { findSharedStructure, getUrlDomain, preprocessHtmlForOpenAI } from '../utils/htmlExtractor';
+import {
+    ChatMessage,
+    GeneratedParser,
+    HtmlSample,
+    LlmClient,
+    LlmCompletionOptions,
+    LlmUsage,
+    OutputSchema,
+    ParserFeedback,
+    ParserGenerationOptions,
+    ParserGenerator,
+    ParserKind,
+} from '../types';
+import { countRequestTokens, countTokens } from '../utils/tokenCounter';
+import { getModelPricing, PricingTable, Stats } from '../utils/stats';
+import { LlmCompletionError } from '../types/LlmCompletionError';
+import { ApiError } from '../types/ApiError';
+import { BudgetReservation, SpendBudget } from '../utils/spendBudget';
+import { sanitizeParserCode, sanitizeSelectorSpec } from '../utils/sanitization';
+import { SELECTOR_TRANSFORMS } from '../utils/selectorSpec';
+
+const MAX_FEEDBACK_OUTPUT_LENGTH = 1000;
+
+export interface LlmParserGeneratorOptions {
+    // Token budget for the HTML sample in the prompt
+    htmlTokenBudget?: number;
+    // Checked before every completion call
+    budget?: SpendBudget;
+    // Prices used for cost estimates and spend caps (default: list prices)
+    pricing?: PricingTable;
+}
+
+const SYSTEM_PROMPTS: Record<ParserKind, string> = {
+    javascript:
+        'You are an expert at creating HTML parsers. Generate clean, efficient JavaScript code that extracts relevant content from HTML.',
+    'selector-spec':
+        'You are an expert at creating HTML parsers. Generate precise, declarative JSON selector specs that extract relevant content from HTML.',
+};
+
+/**
+ * Provider-agnostic parser generator. Prompting, repair and sanitization live
+ * here; the actual completion call is delegated to an `LlmClient`.
+ */
+export class LlmParserGenerator implements ParserGenerator {
+    private client: LlmClient;
+    private completionOptions: LlmCompletionOptions;
+    private htmlTokenBudget?: number;
+    private budget?: SpendBudget;
+    private pricing?: PricingTable;
+    private stats: Stats;
+
+    constructor(
+        client: LlmClient,
+        completionOptions: LlmCompletionOptions,
+        options: LlmParserGeneratorOptions = {}
+    ) {
+        this.client = client;
+        this.completionOptions = completionOptions;
+        this.htmlTokenBudget = options.htmlTokenBudget;
+        this.budget = options.budget;
+        this.pricing = options.pricing;
+        this.stats = new Stats(options.pricing);
+    }
+
+    async generateParser(
+        url: string,
+        htmlText: string,
+        options: ParserGenerationOptions = {}
+    ): Promise<GeneratedParser> {
+        const { kind = 'javascript', schema, feedback, samples = [], temperature } = options;
+        const prompt = await this.createParserPrompt(url, htmlText, kind, schema, samples);
+
+        const { model } = this.completionOptions;
+        const messages: ChatMessage[] = [
+            {
+                role: 'system',
+                content: SYSTEM_PROMPTS[kind],
+            },
+            {
+                role: 'user',
+                content: prompt,
+            },
+        ];
+
+        if (feedback) {
+            messages.push(
+                { role: 'assistant', content: feedback.previousParser },
+                { role: 'user', content: this.createRepairPrompt(feedback, kind) }
+            );
+        }
+
+        const inputTokens = countRequestTokens(messages, model);
+        const pricing = getModelPricing(model, this.pricing);
+        const domain = getUrlDomain(url);
+
+        const reservation = this.budget?.reserve({
+            domain,
+            promptTokens: inputTokens,
+            estimatedCostUsd:
+                (inputTokens * pricing.input + this.completionOptions.maxTokens * pricing.output) /
+                1000,
+        });
+
+        try {
+            const completion = await this.client.complete(messages, {
+                ...this.completionOptions,
+                temperature: temperature ?? this.completionOptions.temperature,
+            });
+            const parserCode = completion.content;
+
+            // Providers that do not report usage are counted locally
+            const usage: LlmUsage = completion.usage || {
+                inputTokens,
+                outputTokens: countTokens(parserCode, model),
+            };
+            this.recordUsage(domain, usage, false, reservation);
+
+            logger.info('Parser generation token count', {
+                provider: this.client.provider,
+                model,
+                inputTokens: usage.inputTokens,
+                outputTokens: usage.outputTokens,
+                totalTokens: usage.inputTokens + usage.outputTokens,
+                reportedByProvider: !!completion.usage,
+                url,
+                kind,
+                repair: !!feedback,
+            });
+
+            const parser =
+                kind === 'selector-spec'
+                    ? sanitizeSelectorSpec(parserCode)
+                    : sanitizeParserCode(parserCode);
+            return { parser, model, usage };
+        } catch (error) {
+            if (error instanceof LlmCompletionError && error.usage) {
+                this.recordUsage(domain, error.usage, true, reservation);
+            } else if (reservation) {
+                // No-op when the usage was already recorded and a later step failed
+                this.budget?.release(reservation);
+            }
+            logger.error(
+                `Error generating parser with ${this.client.provider}:`,
+                getErrorInfo(error)
+            );
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            throw new Error(
+                `Failed to generate parser: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    private recordUsage(
+        domain: string,
+        usage: LlmUsage,
+        failed: boolean = false,
+        reservation?: BudgetReservation
+    ): void {
+        const cost = this.stats.addRequest(this.completionOptions.model, usage, failed);
+        if (reservation) {
+            this.budget?.settle(reservation, cost);
+        } else {
+            this.budget?.record(domain, cost);
+        }
+    }
+
+    private async createParserPrompt(
+        url: string,
+        htmlText: string,
+        kind: ParserKind,
+        schema: OutputSchema | undefined,
+        samples: HtmlSample[]
+    ): Promise<string> {
+        const { structure, sampleHtml } = await preprocessHtmlForOpenAI(htmlText, {
+            tokenBudget: this.htmlTokenBudget,
+            model: this.completionOptions.model,
+        });
+        const samplesSection =
+            samples.length > 0 ? `${this.getSamplesSection(url, htmlText, samples)}\n\n` : '';
+
+        const task =
+            kind === 'selector-spec'
+                ? 'Create a JSON selector spec that describes how to extract relevant text content from HTML pages matching the following URL pattern.'
+                : 'Create a JavaScript function that parses HTML content from the following URL pattern and extracts relevant text content.';
+
+        return `
+${task}
+
+URL: ${url}
+
+HTML Structure Analysis:
+Structure: ${JSON.stringify(structure, null, 2)}
+    
+HTML skeleton of the whole page (repeated siblings are collapsed into one with a count, long text is truncated):
+\`\`\`html
+${sampleHtml}
+\`\`\`
+
+${samplesSection}${schema ? `${this.getSchemaRequirements(schema)}\n\n` : ''}${kind === 'selector-spec' ? this.getSelectorSpecRequirements() : this.getJavaScriptRequirements()}
+        `.trim();
+    }
+
+    private getSamplesSection(url: string, htmlText: string, samples: HtmlSample[]): string {
+        const { shared, varying } = findSharedStructure([
+            htmlText,
+            ...samples.map(sample => sample.html),
+        ]);
+
+        return `
+The parser will be validated against ${samples.length + 1} pages matching this URL pattern and must work on all of them:
+${[url, ...samples.map(sample => sample.url)].map(sampleUrl => `- ${sampleUrl}`).join('\n')}
+
+Ids and classes present on every page (prefer these): ${shared.join(', ') || 'none'}
+Ids and classes present on only some pages (specific to one page, do not rely on them): ${varying.join(', ') || 'none'}
+        `.trim();
+    }
+
+    private getJavaScriptRequirements(): string {
+        return `
+Requirements:
+1. The function should be named 'parseHtml' and accept a $ argument which is equivalent to cheerio.load(html).
+2. Extract only relevant text content, ignoring navigation, ads, scripts, styles, and other non-content elements
+3. Use selectors as specific as possible to retrieve the most relevant text content, excluding irrelevant text content next to it
+4. Return a clean object with extracted data
+5. Use modern JavaScript syntax
+6. Include proper error handling but do not swallow errors. If the parser encountered something unexpected, throw an error.
+7. The function should be self-contained and not require external dependencies beyond the cheerio instance passed in as a parameter.
+
+Return only the function code, no explanations or markdown formatting.
+        `.trim();
+    }
+
+    private getSelectorSpecRequirements(): string {
+        return `
+Requirements:
+1. Return a JSON object of the form {"fields": {"<fieldName>": {"selector": "<css selector>", "attribute": "<optional attribute name>", "multiple": <optional boolean>, "transforms": [<optional transforms>]}}}
+2. Each field maps to a CSS selector evaluated with cheerio. Without "attribute" the element text is used; with it, the attribute value is used.
+3. Set "multiple" to true to extract an array of values from every matching element; otherwise only the first match is used.
+4. "transforms" are applied in order and may only be: ${SELECTOR_TRANSFORMS.join(', ')}. They default to ["trim"].
+5. Extract only relevant text content, ignoring navigation, ads, scripts, styles, and other non-content elements
+6. Use selectors as specific as possible to retrieve the most relevant text content, excluding irrelevant text content next to it
+
+Return only the JSON, no explanations or markdown formatting.
+        `.trim();
+    }
+
+    private getSchemaRequirements(schema: OutputSchema): string {
+        return `
+The extracted object MUST conform to the following JSON Schema. Use exactly the property names it defines and produce values of the declared types:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+        `.trim();
+    }
+
+    private createRepairPrompt(feedback: ParserFeedback, kind: ParserKind): string {
+        const output =
+            feedback.output === undefined
+                ? 'No output was produced.'
+                : JSON.stringify(feedback.output, null, 2).substring(0, MAX_FEEDBACK_OUTPUT_LENGTH);
+
+        return `
+The parser above was executed against the sample HTML and failed validation.
+
+Error: ${feedback.error}
+
+Output:
+${output}
+
+Fix the parser so it runs without errors and returns non-empty extracted content. Keep the same requirements as before.
+
+Return only the ${kind === 'selector-spec' ? 'JSON' : 'function code'}, no explanations or markdown formatting.
+        `.trim();
+    }
+
+    getStats() {
+        return {
+            provider: this.client.provider,
+            model: this.completionOptions.model,
+            ...this.stats.getStats(),
+            ...(this.budget ? { budget: this.budget.getUsage() } : {}),
+            ...this.client.getStats?.(),
+        };
+    }
+
+    getCircuitStatus() {
+        return this.client.getCircuitStatus?.();
+    }
+}
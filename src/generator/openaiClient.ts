@@ -0,0 +1,63 @@
+import OpenAI from 'openai';
+import { ChatMessage, LlmClient, LlmCompletion, LlmCompletionOptions } from '../types';
+import { LlmCompletionError } from '../types/LlmCompletionError';
+import { LlmRequestError, parseRetryAfter } from '../types/LlmRequestError';
+
+/**
+ * Chat completions client for OpenAI and any server exposing the same API
+ * (llama.cpp, vLLM, Ollama, ...) through `baseUrl`.
+ */
+export class OpenAIClient implements LlmClient {
+    public readonly provider: string;
+    private client: OpenAI;
+    // OpenAI-compatible servers generally only know the older `max_tokens` parameter
+    private legacyMaxTokens: boolean;
+
+    constructor(apiKey: string | undefined, baseUrl?: string, provider: string = 'openai') {
+        this.provider = provider;
+        this.legacyMaxTokens = Boolean(baseUrl);
+        this.client = new OpenAI({
+            // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+            apiKey: apiKey || 'not-needed',
+            baseURL: baseUrl,
+            // Retries are handled by ResilientLlmClient
+            maxRetries: 0,
+        });
+    }
+
+    async complete(messages: ChatMessage[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+        const completion = await this.client.chat.completions
+            .create({
+                model: options.model,
+                messages,
+                temperature: options.temperature,
+                ...(this.legacyMaxTokens
+                    ? { max_tokens: options.maxTokens }
+                    : { max_completion_tokens: options.maxTokens }),
+            })
+            .catch(error => {
+                if (error instanceof OpenAI.APIError) {
+                    throw new LlmRequestError(
+                        error.message,
+                        error.status,
+                        parseRetryAfter(error.headers?.['retry-after'])
+                    );
+                }
+                throw error;
+            });
+
+        const usage = completion.usage
+            ? {
+                  inputTokens: completion.usage.prompt_tokens,
+                  outputTokens: completion.usage.completion_tokens,
+              }
+            : undefined;
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            throw new LlmCompletionError(`No content returned by ${this.provider}`, usage);
+        }
+
+        return { content, usage };
+    }
+}
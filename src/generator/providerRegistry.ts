@@ -0,0 +1,85 @@
+import { LlmClient, LlmConfig } from '../types';
+import { OpenAIClient } from './openaiClient';
+import { AnthropicClient } from './anthropicClient';
+
+type LlmClientFactory = (_config: LlmConfig) => LlmClient;
+
+interface LlmProvider {
+    create: LlmClientFactory;
+    requiresApiKey: (_config: LlmConfig) => boolean;
+    defaultModel: string;
+}
+
+const providers: Map<string, LlmProvider> = new Map();
+
+export function registerLlmProvider(name: string, provider: LlmProvider): void {
+    providers.set(name, provider);
+}
+
+registerLlmProvider('openai', {
+    create: config => new OpenAIClient(config.apiKey, config.baseUrl),
+    // A custom base URL usually points at a local server that needs no key
+    requiresApiKey: config => !config.baseUrl,
+    defaultModel: 'gpt-4',
+});
+
+registerLlmProvider('openai-compatible', {
+    create: config => {
+        if (!config.baseUrl) {
+            throw new Error('The openai-compatible provider requires a base URL');
+        }
+        return new OpenAIClient(config.apiKey, config.baseUrl, 'openai-compatible');
+    },
+    requiresApiKey: () => false,
+    defaultModel: 'local-model',
+});
+
+registerLlmProvider('anthropic', {
+    create: config => new AnthropicClient(config.apiKey, config.baseUrl),
+    requiresApiKey: config => !config.baseUrl,
+    defaultModel: 'claude-3-5-sonnet-latest',
+});
+
+function getProvider(name: string): LlmProvider {
+    const provider = providers.get(name);
+    if (!provider) {
+        throw new Error(
+            `Unknown LLM provider "${name}". Available providers: ${Array.from(providers.keys()).join(', ')}`
+        );
+    }
+    return provider;
+}
+
+export function hasRequiredCredentials(config: LlmConfig): boolean {
+    return !getProvider(config.provider).requiresApiKey(config) || !!config.apiKey;
+}
+
+export function createLlmClient(config: LlmConfig): LlmClient {
+    const provider = getProvider(config.provider);
+    if (!hasRequiredCredentials(config)) {
+        throw new Error(`An API key is required for the ${config.provider} provider`);
+    }
+    return provider.create(config);
+}
+
+/**
+ * Builds the LLM configuration from environment variables. `LLM_API_KEY` falls
+ * back to the provider-specific variable (`OPENAI_API_KEY`, `ANTHROPIC_API_KEY`).
+ */
+export function loadLlmConfig(env: Record<string, string | undefined> = process.env): LlmConfig {
+    const providerName = env.LLM_PROVIDER || 'openai';
+    const provider = getProvider(providerName);
+    const temperature = parseFloat(env.LLM_TEMPERATURE || '');
+    const maxTokens = parseInt(env.LLM_MAX_TOKENS || '', 10);
+
+    return {
+        provider: providerName,
+        apiKey:
+            env.LLM_API_KEY ||
+            (providerName === 'anthropic' ? env.ANTHROPIC_API_KEY : env.OPENAI_API_KEY),
+        baseUrl: env.LLM_BASE_URL || undefined,
+        model: env.LLM_MODEL || provider.defaultModel,
+        temperature: Number.isNaN(temperature) ? 0.1 : temperature,
+        maxTokens: Number.isNaN(maxTokens) ? 2000 : maxTokens,
+    };
+}
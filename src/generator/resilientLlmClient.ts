@@ -0,0 +1,143 @@
+import {
+    ChatMessage,
+    CircuitBreakerStatus,
+    LlmClient,
+    LlmCompletion,
+    LlmCompletionOptions,
+} from '../types';
+import { ApiError } from '../types/ApiError';
+import { LlmRequestError } from '../types/LlmRequestError';
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/circuitBreaker';
+import { logger, getErrorInfo } from '../utils/logger';
+
+export interface RetryOptions {
+    // Retries after the first attempt
+    maxRetries?: number;
+    baseDelayMs?: number;
+    // Longest wait between attempts; a longer Retry-After ends the retries
+    maxDelayMs?: number;
+}
+
+export interface ResilientLlmClientOptions extends RetryOptions {
+    circuitBreaker?: CircuitBreakerOptions;
+    sleep?: (_ms: number) => Promise<void>;
+    random?: () => number;
+    now?: () => number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// Timeouts, conflicts, rate limits and server errors are worth another try
+const RETRYABLE_STATUSES = new Set([408, 409, 429]);
+
+// Requests without a status never reached the provider
+const isRetryable = (error: unknown): error is LlmRequestError =>
+    error instanceof LlmRequestError &&
+    (error.status === undefined || RETRYABLE_STATUSES.has(error.status) || error.status >= 500);
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wraps an LLM client with retries and a circuit breaker. Transient failures
+ * are retried with exponential backoff and full jitter, waiting at least as
+ * long as the provider's `Retry-After`. A call that still fails counts against
+ * the breaker; while it is open, calls fail fast with a 503 `LLM_CIRCUIT_OPEN`
+ * instead of reaching the provider.
+ */
+export class ResilientLlmClient implements LlmClient {
+    public readonly provider: string;
+    private client: LlmClient;
+    private breaker: CircuitBreaker;
+    private maxRetries: number;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private sleep: (_ms: number) => Promise<void>;
+    private random: () => number;
+    private retries = 0;
+    private rejectedWhileOpen = 0;
+
+    constructor(client: LlmClient, options: ResilientLlmClientOptions = {}) {
+        this.provider = client.provider;
+        this.client = client;
+        this.breaker = new CircuitBreaker(client.provider, options.circuitBreaker, options.now);
+        this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+        this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+        this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+        this.sleep = options.sleep || defaultSleep;
+        this.random = options.random || Math.random;
+    }
+
+    async complete(messages: ChatMessage[], options: LlmCompletionOptions): Promise<LlmCompletion> {
+        if (!this.breaker.tryAcquire()) {
+            this.rejectedWhileOpen++;
+            throw new ApiError(503, {
+                error: `The ${this.provider} provider is failing, LLM calls are paused`,
+                code: 'LLM_CIRCUIT_OPEN',
+                provider: this.provider,
+                retryAfterSeconds: Math.ceil(this.breaker.getRetryAfterMs() / 1000),
+            });
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const completion = await this.client.complete(messages, options);
+                this.breaker.recordSuccess();
+                return completion;
+            } catch (error) {
+                if (!isRetryable(error)) {
+                    // The provider answered, so it counts as available
+                    this.breaker.recordSuccess();
+                    throw error;
+                }
+
+                const delayMs = this.getRetryDelay(error, attempt);
+                // Other calls may have opened the breaker in the meantime
+                if (delayMs === undefined || this.breaker.getRetryAfterMs() > 0) {
+                    this.breaker.recordFailure();
+                    throw error;
+                }
+
+                this.retries++;
+                logger.warn('LLM request failed, retrying', {
+                    provider: this.provider,
+                    attempt: attempt + 1,
+                    status: error.status,
+                    delayMs,
+                    ...getErrorInfo(error),
+                });
+                await this.sleep(delayMs);
+            }
+        }
+    }
+
+    getCircuitStatus(): CircuitBreakerStatus {
+        return this.breaker.getStatus();
+    }
+
+    getStats() {
+        return {
+            retries: this.retries,
+            rejectedWhileOpen: this.rejectedWhileOpen,
+            circuitBreaker: this.breaker.getStatus(),
+        };
+    }
+
+    // Undefined when the call should not be retried
+    private getRetryDelay(error: LlmRequestError, attempt: number): number | undefined {
+        if (attempt >= this.maxRetries) {
+            return undefined;
+        }
+
+        const backoffMs = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+        const jitteredMs = Math.floor(this.random() * backoffMs);
+        if (error.retryAfterMs === undefined) {
+            return jitteredMs;
+        }
+        if (error.retryAfterMs > this.maxDelayMs) {
+            return undefined;
+        }
+        return Math.max(error.retryAfterMs, jitteredMs);
+    }
+}
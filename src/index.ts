@@ -3,11 +3,27 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import * as path from 'path';
 import { ParserService } from './services/parserService';
+import { UrlPatternRuleService } from './services/urlPatternRuleService';
 import { DiskParserStorage } from './storage/diskParserStorage';
-import { OpenAIService } from './generator/openaiParserGenerator';
+import { SqliteParserStorage } from './storage/sqliteParserStorage';
+import { LlmParserGenerator } from './generator/llmParserGenerator';
+import { HeuristicParserGenerator } from './generator/heuristicParserGenerator';
+import { FallbackParserGenerator } from './generator/fallbackParserGenerator';
+import { ResilientLlmClient } from './generator/resilientLlmClient';
+import {
+    createLlmClient,
+    hasRequiredCredentials,
+    loadLlmConfig,
+} from './generator/providerRegistry';
+import { ParserSandbox } from './sandbox/parserSandbox';
 import { createRoutes } from './api/routes';
 import { ApiError } from './types/ApiError';
+import { ParserGenerator } from './types';
 import { logger, getErrorInfo } from './utils/logger';
+import { SpendBudget } from './utils/spendBudget';
+import { loadPricingTable } from './utils/stats';
+import { loadQueryParamConfig } from './utils/urlQueryPattern';
+import { DEFAULT_URL_CANONICALIZATION, parseHostAliases } from './utils/urlCanonicalizer';
 
 dotenv.config();
 
@@ -18,18 +34,101 @@ app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-const openaiApiKey = process.env.OPENAI_API_KEY;
-if (!openaiApiKey) {
-    logger.error('OPENAI_API_KEY environment variable is required');
+const optionalNumber = (value: string | undefined): number | undefined => {
+    const parsed = parseFloat(value || '');
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Without credentials the service still runs, generating parsers heuristically
+const heuristicGenerator = new HeuristicParserGenerator();
+let parserGenerator: ParserGenerator;
+try {
+    const llmConfig = loadLlmConfig();
+    if (hasRequiredCredentials(llmConfig)) {
+        const llmClient = new ResilientLlmClient(createLlmClient(llmConfig), {
+            maxRetries: optionalNumber(process.env.LLM_MAX_RETRIES),
+            baseDelayMs: optionalNumber(process.env.LLM_RETRY_BASE_DELAY_MS),
+            circuitBreaker: {
+                failureThreshold: optionalNumber(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD),
+                resetTimeoutMs: optionalNumber(process.env.LLM_CIRCUIT_RESET_MS),
+            },
+        });
+        const llmGenerator = new LlmParserGenerator(llmClient, llmConfig, {
+            htmlTokenBudget: Number(process.env.HTML_SAMPLE_TOKEN_BUDGET) || undefined,
+            pricing: loadPricingTable(process.env.LLM_PRICING_FILE),
+            budget: new SpendBudget({
+                dailySpendUsd: optionalNumber(process.env.BUDGET_DAILY_USD),
+                monthlySpendUsd: optionalNumber(process.env.BUDGET_MONTHLY_USD),
+                domainGenerationsPerDay: optionalNumber(
+                    process.env.BUDGET_DOMAIN_GENERATIONS_PER_DAY
+                ),
+                maxPromptTokens: optionalNumber(process.env.BUDGET_MAX_PROMPT_TOKENS),
+            }),
+        });
+        parserGenerator =
+            process.env.HEURISTIC_FALLBACK === 'false'
+                ? llmGenerator
+                : new FallbackParserGenerator(llmGenerator, heuristicGenerator);
+    } else {
+        logger.warn(
+            `No API key configured for the ${llmConfig.provider} provider, using the heuristic parser generator`
+        );
+        parserGenerator = heuristicGenerator;
+    }
+} catch (error) {
+    logger.error('Failed to configure LLM provider:', getErrorInfo(error));
     process.exit(1);
 }
 
 const storageDir = process.env.PARSER_STORAGE_DIR || path.join(process.cwd(), 'tmp', 'parsers');
-const storage = new DiskParserStorage(storageDir);
-const parserGenerator = new OpenAIService(openaiApiKey);
-const parserService = new ParserService(parserGenerator, storage);
+const maxVersions = parseInt(process.env.PARSER_MAX_VERSIONS || '', 10);
+const storageOptions = { maxVersions: Number.isNaN(maxVersions) ? undefined : maxVersions };
+const storage =
+    process.env.PARSER_STORAGE === 'sqlite'
+        ? new SqliteParserStorage(
+              process.env.PARSER_STORAGE_SQLITE_PATH ||
+                  path.join(process.cwd(), 'tmp', 'parsers.db'),
+              storageOptions
+          )
+        : new DiskParserStorage(storageDir, storageOptions);
+const sandbox = new ParserSandbox({
+    timeoutMs: Number(process.env.PARSER_TIMEOUT_MS) || undefined,
+    memoryLimitMb: Number(process.env.PARSER_MEMORY_LIMIT_MB) || undefined,
+});
+const maxRepairAttempts = parseInt(process.env.PARSER_MAX_REPAIR_ATTEMPTS || '', 10);
+const maxSamples = parseInt(process.env.PARSER_MAX_SAMPLES || '', 10);
+const candidates = parseInt(process.env.PARSER_CANDIDATES || '', 10);
+const healCooldownMs = parseInt(process.env.PARSER_HEAL_COOLDOWN_MS || '', 10);
+const urlPatternRules = new UrlPatternRuleService(storage, {
+    reloadIntervalMs: optionalNumber(process.env.URL_PATTERN_RULES_RELOAD_MS),
+    queryParams: loadQueryParamConfig(
+        process.env.URL_QUERY_PAGE_TYPE_PARAMS,
+        process.env.URL_QUERY_NOISE_PARAMS,
+        process.env.URL_QUERY_ID_PARAMS,
+        process.env.URL_QUERY_KEEP_UNKNOWN_PARAMS === 'true'
+    ),
+    canonicalization: {
+        ...DEFAULT_URL_CANONICALIZATION,
+        stripWww: process.env.URL_STRIP_WWW === 'true',
+        stripMobile: process.env.URL_STRIP_MOBILE === 'true',
+        lowercasePath: process.env.URL_LOWERCASE_PATH === 'true',
+        hostAliases: parseHostAliases(process.env.URL_HOST_ALIASES),
+    },
+});
+const parserService = new ParserService(parserGenerator, storage, sandbox, {
+    maxRepairAttempts: Number.isNaN(maxRepairAttempts) ? undefined : maxRepairAttempts,
+    minResultCoverage: Number(process.env.PARSER_MIN_RESULT_COVERAGE) || undefined,
+    maxSamples: Number.isNaN(maxSamples) ? undefined : maxSamples,
+    candidates: Number.isNaN(candidates) ? undefined : candidates,
+    urlPatternRules,
+    fingerprintTemplates: process.env.PARSER_TEMPLATE_FINGERPRINTS !== 'false',
+    templateSimilarity: Number(process.env.PARSER_TEMPLATE_SIMILARITY) || undefined,
+    patternFallback: process.env.PARSER_PATTERN_FALLBACK !== 'false',
+    healCooldownMs: Number.isNaN(healCooldownMs) ? undefined : healCooldownMs,
+    defaultParserKind: process.env.PARSER_KIND === 'selector-spec' ? 'selector-spec' : 'javascript',
+});
 
-app.use('/api', createRoutes(parserService));
+app.use('/api', createRoutes(parserService, urlPatternRules));
 
 app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
     logger.error('Unhandled error:', {
@@ -63,12 +162,14 @@ app.listen(port, () => {
     });
 });
 
-process.on('SIGINT', () => {
-    logger.info('Received SIGINT, shutting down gracefully...');
-    process.exit(0);
-});
+// The disk storage counts parser uses in memory until its next flush
+const shutdown = (signal: string) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    const flushed = storage instanceof DiskParserStorage ? storage.flushUsage() : Promise.resolve();
+    flushed
+        .catch(error => logger.warn('Failed to write parser usage', getErrorInfo(error)))
+        .finally(() => process.exit(0));
+};
 
-process.on('SIGTERM', () => {
-    logger.info('Received SIGTERM, shutting down gracefully...');
-    process.exit(0);
-});
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
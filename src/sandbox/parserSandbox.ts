@@ -0,0 +1,230 @@
+import { Worker } from 'worker_threads';
+import { ApiError } from '../types/ApiError';
+import { getCleanedCheerioInstance } from '../utils/htmlExtractor';
+
+export const PARSER_TIMEOUT = 'PARSER_TIMEOUT';
+export const PARSER_MEMORY_LIMIT = 'PARSER_MEMORY_LIMIT';
+export const PARSER_SANDBOX_VIOLATION = 'PARSER_SANDBOX_VIOLATION';
+export const PARSER_EXECUTION_FAILED = 'PARSER_EXECUTION_FAILED';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+
+// Globals a parser has no business touching. A ReferenceError on one of these
+// means the code tried to escape the sandbox rather than having a plain bug.
+const FORBIDDEN_GLOBALS = [
+    'process',
+    'require',
+    'module',
+    'exports',
+    'global',
+    'globalThis',
+    'Buffer',
+    'setTimeout',
+    'setInterval',
+    'setImmediate',
+    'fetch',
+    'import',
+    '__dirname',
+    '__filename',
+];
+
+// Runs inside the worker. Written as plain CommonJS because eval workers are not
+// transpiled; `require` resolves from the working directory like the rest of the app.
+//
+// `$` and everything it returns belong to the worker's own realm, so their
+// constructors lead back to its Function and global object. Before any parser
+// code runs, the worker's function constructors are replaced with one that
+// throws, and `process` with its `getBuiltinModule` is removed from the global.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const cheerio = require('cheerio');
+
+const { code, html, timeoutMs } = workerData;
+const post = parentPort.postMessage.bind(parentPort);
+
+function lockDown() {
+    const blocked = function () {
+        throw new EvalError('Code generation from strings disallowed for this context');
+    };
+    const functionPrototypes = [
+        function () {},
+        async function () {},
+        function* () {},
+        async function* () {},
+    ].map(fn => Object.getPrototypeOf(fn));
+    for (const prototype of functionPrototypes) {
+        Object.defineProperty(prototype, 'constructor', {
+            value: blocked,
+            writable: false,
+            configurable: false,
+        });
+    }
+    for (const name of ['process', 'require', 'module', 'exports', 'Buffer', 'fetch', 'WebAssembly']) {
+        delete globalThis[name];
+    }
+}
+
+try {
+    const $ = cheerio.load(html);
+    lockDown();
+    post({ ready: true });
+    const context = vm.createContext(
+        { $ },
+        { codeGeneration: { strings: false, wasm: false } }
+    );
+    const script = new vm.Script('(function ($) {\\n' + code + '\\n})($)', {
+        filename: 'parser.js',
+        lineOffset: -1,
+    });
+    const result = script.runInContext(context, { timeout: timeoutMs });
+    post({
+        ok: true,
+        result: result === undefined ? null : JSON.parse(JSON.stringify(result)),
+    });
+} catch (error) {
+    post({
+        ok: false,
+        error: {
+            name: error && error.name ? String(error.name) : 'Error',
+            message: error && error.message ? String(error.message) : String(error),
+            code: error && error.code ? String(error.code) : undefined,
+        },
+    });
+}
+`;
+
+interface WorkerMessage {
+    // Sent once the worker has booted, right before the parser code runs
+    ready?: boolean;
+    ok?: boolean;
+    result?: unknown;
+    error?: { name: string; message: string; code?: string };
+}
+
+export interface ParserSandboxOptions {
+    timeoutMs?: number;
+    memoryLimitMb?: number;
+}
+
+/**
+ * Executes generated parser code away from the main process. Each run gets a
+ * fresh worker thread with a heap cap, and the code itself is evaluated in an
+ * empty vm context where only the cheerio `$` is passed in.
+ */
+export class ParserSandbox {
+    private timeoutMs: number;
+    private memoryLimitMb: number;
+
+    constructor(options: ParserSandboxOptions = {}) {
+        this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+        this.memoryLimitMb = options.memoryLimitMb || DEFAULT_MEMORY_LIMIT_MB;
+    }
+
+    async execute(parserCode: string, html: string): Promise<unknown> {
+        const cleanedHtml = getCleanedCheerioInstance(html).html();
+
+        return new Promise((resolve, reject) => {
+            let settled = false;
+
+            const worker = new Worker(WORKER_SOURCE, {
+                eval: true,
+                workerData: { code: parserCode, html: cleanedHtml, timeoutMs: this.timeoutMs },
+                resourceLimits: {
+                    maxOldGenerationSizeMb: this.memoryLimitMb,
+                    maxYoungGenerationSizeMb: Math.max(8, Math.floor(this.memoryLimitMb / 4)),
+                },
+                env: {},
+                stdout: true,
+                stderr: true,
+            });
+
+            const finish = (error: ApiError | null, result?: unknown) => {
+                if (settled) return;
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                worker.terminate().catch(() => undefined);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(result);
+                }
+            };
+
+            // Wall-clock guard on top of the vm timeout, which only covers synchronous code.
+            // It starts once the worker has booted, so a cold start does not eat into the budget.
+            let timer: ReturnType<typeof setTimeout> | undefined;
+
+            worker.on('message', (message: WorkerMessage) => {
+                if (message.ready) {
+                    timer = setTimeout(() => {
+                        finish(this.timeoutError());
+                    }, this.timeoutMs);
+                } else if (message.ok) {
+                    finish(null, message.result);
+                } else {
+                    finish(this.toApiError(message.error));
+                }
+            });
+
+            worker.on('error', (error: Error & { code?: string }) => {
+                if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+                    finish(
+                        new ApiError(500, {
+                            error: `Parser exceeded memory limit of ${this.memoryLimitMb}MB`,
+                            code: PARSER_MEMORY_LIMIT,
+                        })
+                    );
+                    return;
+                }
+                finish(this.toApiError({ name: error.name, message: error.message }));
+            });
+
+            worker.on('exit', exitCode => {
+                finish(
+                    new ApiError(500, {
+                        error: `Parser worker exited unexpectedly with code ${exitCode}`,
+                        code: PARSER_EXECUTION_FAILED,
+                    })
+                );
+            });
+        });
+    }
+
+    private timeoutError(): ApiError {
+        return new ApiError(504, {
+            error: `Parser execution timed out after ${this.timeoutMs}ms`,
+            code: PARSER_TIMEOUT,
+        });
+    }
+
+    private toApiError(error: WorkerMessage['error']): ApiError {
+        const name = error?.name || 'Error';
+        const message = error?.message || 'Unknown error';
+
+        if (error?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+            return this.timeoutError();
+        }
+
+        const referencedGlobal = message.match(/^(\S+) is not defined$/)?.[1];
+        if (
+            (name === 'ReferenceError' &&
+                referencedGlobal &&
+                FORBIDDEN_GLOBALS.includes(referencedGlobal)) ||
+            name === 'EvalError'
+        ) {
+            return new ApiError(403, {
+                error: `Parser attempted a disallowed operation: ${message}`,
+                code: PARSER_SANDBOX_VIOLATION,
+            });
+        }
+
+        return new ApiError(500, {
+            error: `Parser execution failed: ${name}: ${message}`,
+            code: PARSER_EXECUTION_FAILED,
+        });
+    }
+}
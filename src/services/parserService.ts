@@ -1,20 +1,190 @@
-import { ParserGenerator, ParserRequest, ParserResponse, ParserStorage } from '../types';
-import { generateUrlPattern } from '../utils/htmlExtractor';
+import {
+    DomFingerprint,
+    HtmlSample,
+    OutputSchema,
+    ParserFeedback,
+    ParserGenerator,
+    ParserCandidateReport,
+    ParserKind,
+    ParserQuery,
+    ParserScore,
+    ParseResponse,
+    ParserRequest,
+    ParserResponse,
+    ParserStorage,
+    SchemaValidationError,
+    StoredParser,
+} from '../types';
+import { ApiError } from '../types/ApiError';
+import { ParserSandbox, PARSER_EXECUTION_FAILED } from '../sandbox/parserSandbox';
+import { RecentSampleStore } from '../storage/recentSampleStore';
+import { UrlPatternRuleService } from './urlPatternRuleService';
+import { getCleanedCheerioInstance, getFallbackPatterns } from '../utils/htmlExtractor';
 import { logger, getErrorInfo } from '../utils/logger';
+import {
+    getParseResultCoverage,
+    isEmptyParseResult,
+    sanitizeParseResult,
+} from '../utils/sanitization';
+import { parseSelectorSpec, runSelectorSpec } from '../utils/selectorSpec';
+import { scoreParseResult } from '../utils/parserScoring';
+import { computeDomFingerprint, getFingerprintSimilarity } from '../utils/domFingerprint';
+import {
+    describeSchemaErrors,
+    hashOutputSchema,
+    validateAgainstSchema,
+} from '../utils/outputSchema';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const DEFAULT_MIN_RESULT_COVERAGE = 0.5;
+const DEFAULT_MAX_SAMPLES = 3;
+export const MAX_CANDIDATES = 5;
+// Candidates after the first are drawn at these temperatures; the first uses the configured one
+const CANDIDATE_TEMPERATURES = [0.5, 0.9, 0.3, 0.7];
+const DEFAULT_TEMPLATE_SIMILARITY = 0.7;
+const DEFAULT_HEAL_COOLDOWN_MS = 60000;
+// Each failed heal doubles the cooldown, up to this multiple of the configured one
+const MAX_HEAL_BACKOFF = 64;
+// The generator refused to run (spend cap, quota, prompt size, open circuit) rather than failed
+const GENERATION_REFUSED_STATUSES = [402, 413, 429, 503];
+
+export interface ParserServiceOptions {
+    maxRepairAttempts?: number;
+    // Share of top-level result fields that must be non-empty for a parser to be considered healthy
+    minResultCoverage?: number;
+    // Parser kind requested from the generator when the caller does not ask for one
+    defaultParserKind?: ParserKind;
+    // Pages per URL pattern a new parser is generated from and validated against, including the current one
+    maxSamples?: number;
+    // Parsers generated per new pattern, of which the best scoring valid one is stored
+    candidates?: number;
+    // Shared with the rules API, so rule changes apply immediately
+    urlPatternRules?: UrlPatternRuleService;
+    // Key parsers by page template as well as URL pattern (default: true)
+    fingerprintTemplates?: boolean;
+    // Fingerprint similarity from which a page reuses the parser of another template cluster
+    templateSimilarity?: number;
+    // Try the parsers of more general URL patterns before generating a new one (default: true)
+    patternFallback?: boolean;
+    // Minimum time between two heals of the same parser; doubled after each failed heal
+    healCooldownMs?: number;
+}
+
+export interface ParseOptions {
+    no_cache?: boolean;
+    kind?: ParserKind;
+    schema?: OutputSchema;
+    // Overrides the service default, for patterns worth spending more tokens on
+    candidates?: number;
+}
+
+interface GenerationRequest {
+    url: string;
+    html: string;
+    urlPattern: string;
+    // Storage key: the URL pattern, qualified by anything else that selects a distinct parser
+    parserKey: string;
+    kind: ParserKind;
+    schema?: OutputSchema;
+    // Other pages of the same URL pattern
+    samples: HtmlSample[];
+    candidates: number;
+    fingerprint?: DomFingerprint;
+}
+
+interface ParserCandidate {
+    temperature?: number;
+    parserCode?: string;
+    model?: string;
+    validation?: ParserValidation;
+    score?: ParserScore;
+    error?: string;
+}
+
+interface ResultProblem {
+    error: string;
+    schemaErrors?: SchemaValidationError[];
+}
+
+interface HealState {
+    // Consecutive heals that did not produce a working parser
+    failures: number;
+    retryAt: number;
+}
+
+type ParserValidation =
+    | { valid: true; output: unknown }
+    | { valid: false; error: string; output?: unknown };
+
+const describeCandidate = (candidate: ParserCandidate): ParserCandidateReport => ({
+    ...(candidate.temperature !== undefined ? { temperature: candidate.temperature } : {}),
+    valid: candidate.validation?.valid === true,
+    ...(candidate.score ? { score: candidate.score } : {}),
+    ...(candidate.validation && !candidate.validation.valid
+        ? { error: candidate.validation.error }
+        : {}),
+    ...(candidate.error ? { error: candidate.error } : {}),
+});
+
+export const getParserKey = (
+    urlPattern: string,
+    schema?: OutputSchema,
+    templateId?: string
+): string =>
+    [
+        urlPattern,
+        schema ? `#schema=${hashOutputSchema(schema)}` : '',
+        templateId ? `#template=${templateId}` : '',
+    ].join('');
 
 export class ParserService {
     private parserGenerator: ParserGenerator;
     private storage: ParserStorage;
+    private sandbox: ParserSandbox;
+    private maxRepairAttempts: number;
+    private minResultCoverage: number;
+    private defaultParserKind: ParserKind;
+    private maxSamples: number;
+    private candidates: number;
+    private urlPatternRules: UrlPatternRuleService;
+    private fingerprintTemplates: boolean;
+    private templateSimilarity: number;
+    private patternFallback: boolean;
+    private recentSamples: RecentSampleStore;
     private ongoingRequests: Map<string, Promise<ParserResponse>> = new Map();
+    private healCooldownMs: number;
+    private healStates: Map<string, HealState> = new Map();
 
-    constructor(parserGenerator: ParserGenerator, storage: ParserStorage) {
+    constructor(
+        parserGenerator: ParserGenerator,
+        storage: ParserStorage,
+        sandbox: ParserSandbox = new ParserSandbox(),
+        options: ParserServiceOptions = {}
+    ) {
         this.parserGenerator = parserGenerator;
         this.storage = storage;
+        this.sandbox = sandbox;
+        this.maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+        this.minResultCoverage = options.minResultCoverage ?? DEFAULT_MIN_RESULT_COVERAGE;
+        this.defaultParserKind = options.defaultParserKind || 'javascript';
+        this.maxSamples = Math.max(1, options.maxSamples ?? DEFAULT_MAX_SAMPLES);
+        this.recentSamples = new RecentSampleStore(this.maxSamples - 1);
+        this.candidates = this.clampCandidates(options.candidates ?? 1);
+        this.urlPatternRules = options.urlPatternRules || new UrlPatternRuleService(storage);
+        this.fingerprintTemplates = options.fingerprintTemplates ?? true;
+        this.templateSimilarity = options.templateSimilarity ?? DEFAULT_TEMPLATE_SIMILARITY;
+        this.patternFallback = options.patternFallback ?? true;
+        this.healCooldownMs = options.healCooldownMs ?? DEFAULT_HEAL_COOLDOWN_MS;
     }
 
-    async getParser(
+    async getParser(request: ParserRequest, options: ParseOptions = {}): Promise<ParserResponse> {
+        return await this.resolveParser(request, options, this.fingerprintPage(request.html));
+    }
+
+    private async resolveParser(
         request: ParserRequest,
-        options: { no_cache?: boolean } = {}
+        options: ParseOptions,
+        fingerprint?: DomFingerprint
     ): Promise<ParserResponse> {
         const { url, html } = request;
 
@@ -22,23 +192,271 @@ export class ParserService {
             throw new Error('URL and HTML are required');
         }
 
-        const urlPattern = generateUrlPattern(url);
+        const urlPattern = await this.urlPatternRules.getUrlPattern(url);
+        const canonicalUrl = this.urlPatternRules.canonicalizeUrl(url);
+        const parserKey = getParserKey(urlPattern, options.schema, fingerprint?.hash);
+        const schemaHash = options.schema ? hashOutputSchema(options.schema) : undefined;
+
+        // Samples are only shared between pages of the same template
+        const samples = await this.collectSamples(request, urlPattern, parserKey);
+        this.recentSamples.add(parserKey, { url, html });
 
-        const existingParser = options.no_cache ? null : await this.storage.get(urlPattern);
+        const existingParser = options.no_cache
+            ? null
+            : await this.findCachedParser(urlPattern, options.schema, fingerprint);
         if (existingParser) {
             return {
                 parser: existingParser.parser,
+                kind: existingParser.kind,
                 createdAt: existingParser.createdAt,
+                version: existingParser.version,
+                cached: true,
+                urlPattern,
+                schemaHash,
+                parserKey: existingParser.urlPattern,
+                templateId: existingParser.metadata?.fingerprint?.hash,
+                matchedPattern: urlPattern,
+                canonicalUrl,
+            };
+        }
+
+        const fallback =
+            this.patternFallback && !options.no_cache
+                ? await this.findFallbackParser(urlPattern, html, options.schema, fingerprint)
+                : null;
+        if (fallback) {
+            return {
+                parser: fallback.parser.parser,
+                kind: fallback.parser.kind,
+                createdAt: fallback.parser.createdAt,
+                version: fallback.parser.version,
                 cached: true,
                 urlPattern,
+                schemaHash,
+                parserKey: fallback.parser.urlPattern,
+                templateId: fallback.parser.metadata?.fingerprint?.hash,
+                matchedPattern: fallback.pattern,
+                canonicalUrl,
             };
         }
 
-        return await this.generateParser(url, html, urlPattern);
+        // Concurrent requests for a pattern share one generation, so the URL is added afterwards
+        const generated = await this.generateParser({
+            url,
+            html,
+            urlPattern,
+            parserKey,
+            kind: options.kind || this.defaultParserKind,
+            schema: options.schema,
+            samples,
+            candidates: this.clampCandidates(options.candidates ?? this.candidates),
+            fingerprint,
+        });
+        return { ...generated, canonicalUrl };
     }
 
-    async deleteParser(urlPattern: string): Promise<boolean> {
-        return await this.storage.delete(urlPattern);
+    private fingerprintPage(html: string): DomFingerprint | undefined {
+        return this.fingerprintTemplates && html ? computeDomFingerprint(html) : undefined;
+    }
+
+    async parse(request: ParserRequest, options: ParseOptions = {}): Promise<ParseResponse> {
+        // Fingerprinted once, for finding the parser and for healing it
+        const fingerprint = this.fingerprintPage(request.html);
+        const parser = await this.resolveParser(request, options, fingerprint);
+        const { schema } = options;
+        const fallback = parser.matchedPattern !== parser.urlPattern;
+
+        let failure: ParserFeedback;
+        let problem: ResultProblem | null = null;
+        let executionError: unknown;
+        try {
+            const result = await this.executeParser(parser, request.html);
+            await this.recordUsage(parser.parserKey);
+            problem = this.findResultProblem(result, schema);
+
+            if (!problem) {
+                return { ...parser, result };
+            }
+            if (!parser.cached) {
+                return this.finishWithProblem(parser, result, problem);
+            }
+
+            failure = { previousParser: parser.parser, error: problem.error, output: result };
+        } catch (error) {
+            if (!parser.cached) {
+                throw error;
+            }
+
+            executionError = error;
+            failure = { previousParser: parser.parser, error: getErrorInfo(error).message };
+        }
+
+        // The failing parser is replaced, whichever template cluster it belongs to,
+        // unless it belongs to a more general pattern that other pages rely on
+        const healKey = fallback
+            ? getParserKey(parser.urlPattern, schema, fingerprint?.hash)
+            : parser.parserKey;
+
+        const healState = this.healStates.get(healKey);
+        if (healState && Date.now() < healState.retryAt) {
+            logger.info('Cached parser is failing, but was healed recently', {
+                urlPattern: parser.urlPattern,
+                parserKey: healKey,
+                retryAt: new Date(healState.retryAt).toISOString(),
+                error: failure.error,
+            });
+            if (failure.output === undefined || !problem) {
+                throw executionError;
+            }
+            return this.finishWithProblem(parser, failure.output, problem);
+        }
+
+        logger.warn('Cached parser is failing, regenerating', {
+            urlPattern: parser.urlPattern,
+            error: failure.error,
+        });
+
+        // Pages seen before the failure may have the markup the parser was failing to
+        // handle, so the new parser is only validated against this page and the request's samples
+        const sampleKey = getParserKey(parser.urlPattern, schema, fingerprint?.hash);
+        this.recentSamples.delete(sampleKey);
+        this.recentSamples.add(sampleKey, { url: request.url, html: request.html });
+
+        // Concurrent requests for the same key share the generation through `generateParser`
+        let healed: ParseResponse;
+        try {
+            const healedParser = await this.generateParser(
+                {
+                    url: request.url,
+                    html: request.html,
+                    urlPattern: parser.urlPattern,
+                    parserKey: healKey,
+                    kind: parser.kind,
+                    schema,
+                    samples: await this.collectSamples(request, parser.urlPattern, sampleKey),
+                    candidates: this.clampCandidates(options.candidates ?? this.candidates),
+                    fingerprint,
+                },
+                failure
+            );
+            const result = await this.executeParser(healedParser, request.html);
+            await this.recordUsage(healedParser.parserKey);
+            healed = { ...healedParser, canonicalUrl: parser.canonicalUrl, healed: true, result };
+        } catch (error) {
+            logger.error('Failed to heal cached parser', {
+                urlPattern: parser.urlPattern,
+                ...getErrorInfo(error),
+            });
+            this.recordHeal(healKey, false);
+
+            if (failure.output === undefined || !problem) {
+                if (
+                    error instanceof ApiError &&
+                    GENERATION_REFUSED_STATUSES.includes(error.statusCode)
+                ) {
+                    throw error;
+                }
+                throw new ApiError(500, {
+                    error: `Cached parser failed and could not be regenerated: ${failure.error}`,
+                    code: 'PARSER_HEAL_FAILED',
+                    urlPattern: parser.urlPattern,
+                });
+            }
+
+            return this.finishWithProblem(parser, failure.output, problem);
+        }
+
+        const healedProblem = this.findResultProblem(healed.result, schema);
+        this.recordHeal(healKey, !healedProblem);
+        return healedProblem
+            ? this.finishWithProblem(healed, healed.result, healedProblem)
+            : healed;
+    }
+
+    /**
+     * Deletes every parser stored for the URL pattern: the plain pattern's and
+     * those of its schemas and page templates. A parser key deletes only itself.
+     */
+    async deleteParser(urlPattern: string): Promise<string[]> {
+        const deleted: string[] = [];
+        for (const parserKey of await this.resolveParserKeys(urlPattern)) {
+            if (await this.storage.delete(parserKey)) {
+                deleted.push(parserKey);
+            }
+        }
+        return deleted;
+    }
+
+    async getParserVersions(urlPattern: string): Promise<StoredParser[]> {
+        const parserKey = await this.resolveParserKey(urlPattern);
+        return parserKey ? await this.storage.getVersions(parserKey) : [];
+    }
+
+    async getParserVersion(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const parserKey = await this.resolveParserKey(urlPattern);
+        return parserKey ? await this.storage.getVersion(parserKey, version) : null;
+    }
+
+    async rollbackParser(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const parserKey = await this.resolveParserKey(urlPattern);
+        const parser = parserKey ? await this.storage.rollback(parserKey, version) : null;
+        if (parser) {
+            logger.info('Rolled back parser', {
+                urlPattern: parser.urlPattern,
+                restoredFrom: version,
+                version: parser.version,
+            });
+        }
+        return parser;
+    }
+
+    /**
+     * How a URL maps to its pattern, and the stored parsers a page of it would
+     * be served by: those of the pattern itself, or else of the most specific
+     * more general pattern that has any. Without the page, neither the template
+     * match nor the validation of a fallback can be checked.
+     */
+    async explainUrlPattern(url: string) {
+        const explanation = await this.urlPatternRules.explainUrlPattern(url);
+        const patterns = [
+            explanation.urlPattern,
+            ...(this.patternFallback ? getFallbackPatterns(explanation.urlPattern) : []),
+        ];
+
+        for (const pattern of patterns) {
+            const parser = await this.storage.get(pattern);
+            const parsers = [
+                ...(parser ? [parser] : []),
+                ...(await this.storage.getByPrefix(`${pattern}#template=`)),
+            ];
+            if (parsers.length > 0) {
+                return {
+                    ...explanation,
+                    parser: {
+                        matchedPattern: pattern,
+                        fallback: pattern !== explanation.urlPattern,
+                        parsers: parsers.map(parser => ({
+                            parserKey: parser.urlPattern,
+                            templateId: parser.metadata?.fingerprint?.hash,
+                            kind: parser.kind,
+                            version: parser.version,
+                            createdAt: parser.createdAt,
+                        })),
+                    },
+                };
+            }
+        }
+
+        return { ...explanation, parser: null };
+    }
+
+    // Degraded while the LLM provider's circuit breaker refuses calls
+    getHealth() {
+        const circuitBreaker = this.parserGenerator.getCircuitStatus?.();
+        return {
+            status: circuitBreaker?.state === 'open' ? 'degraded' : 'healthy',
+            ...(circuitBreaker ? { circuitBreaker } : {}),
+        };
     }
 
     async getStats() {
@@ -55,49 +473,484 @@ export class ParserService {
         };
     }
 
+    // A page of stored parsers without their code, for browsing them
+    async listParsers(query: ParserQuery) {
+        const page = await this.storage.query(query);
+        return {
+            parsers: page.parsers.map(parser => ({
+                urlPattern: parser.urlPattern,
+                kind: parser.kind,
+                version: parser.version,
+                createdAt: parser.createdAt,
+                status: parser.metadata?.source,
+                model: parser.metadata?.model,
+                templateId: parser.metadata?.fingerprint?.hash,
+                usage: parser.usage || null,
+            })),
+            total: page.total,
+            nextCursor: page.nextCursor,
+        };
+    }
+
+    /**
+     * The stored keys a URL pattern refers to. New parsers are keyed by their
+     * schema and page template as well, so a plain pattern stands for all of
+     * them, while a parser key (anything with a `#` part) stands for itself.
+     */
+    private async resolveParserKeys(urlPattern: string): Promise<string[]> {
+        if (urlPattern.includes('#')) {
+            return [urlPattern];
+        }
+        const parsers = await this.storage.getByPrefix(`${urlPattern}#`);
+        return [
+            ...((await this.storage.has(urlPattern)) ? [urlPattern] : []),
+            ...parsers.map(parser => parser.urlPattern),
+        ];
+    }
+
+    // The single parser a versions request is about; several are ambiguous
+    private async resolveParserKey(urlPattern: string): Promise<string | null> {
+        const parserKeys = await this.resolveParserKeys(urlPattern);
+        if (parserKeys.length > 1) {
+            throw new ApiError(409, {
+                error: 'The URL pattern has several parsers; use one of their parser keys',
+                code: 'AMBIGUOUS_URL_PATTERN',
+                urlPattern,
+                parserKeys,
+            });
+        }
+        return parserKeys[0] ?? null;
+    }
+
+    /**
+     * Samples for a new parser besides the current page: the ones sent with the
+     * request first, then recent traffic for the same URL pattern.
+     */
+    private async collectSamples(
+        request: ParserRequest,
+        urlPattern: string,
+        sampleKey: string
+    ): Promise<HtmlSample[]> {
+        const requestSamples = request.samples || [];
+        for (const sample of requestSamples) {
+            if (!sample.url || !sample.html) {
+                throw new ApiError(400, { error: 'Every sample needs a URL and HTML' });
+            }
+            const samplePattern = await this.urlPatternRules.getUrlPattern(sample.url);
+            if (samplePattern !== urlPattern) {
+                throw new ApiError(400, {
+                    error: `Sample ${sample.url} does not match the URL pattern ${urlPattern}`,
+                    urlPattern,
+                    samplePattern,
+                });
+            }
+        }
+
+        const seen = new Set([request.url]);
+        return [...requestSamples, ...this.recentSamples.get(sampleKey)]
+            .filter(sample => {
+                if (seen.has(sample.url)) {
+                    return false;
+                }
+                seen.add(sample.url);
+                return true;
+            })
+            .slice(0, this.maxSamples - 1);
+    }
+
+    // Starts the cooldown before the next heal of the key, longer after each failed heal
+    private recordHeal(parserKey: string, succeeded: boolean): void {
+        const failures = succeeded ? 0 : (this.healStates.get(parserKey)?.failures ?? 0) + 1;
+        const backoff = Math.min(MAX_HEAL_BACKOFF, 2 ** failures);
+        this.healStates.set(parserKey, {
+            failures,
+            retryAt: Date.now() + this.healCooldownMs * backoff,
+        });
+    }
+
+    // Usage counters are informational, so a failure to record one never fails the request
+    private async recordUsage(parserKey: string): Promise<void> {
+        try {
+            await this.storage.recordUsage(parserKey);
+        } catch (error) {
+            logger.warn('Failed to record parser usage', {
+                urlPattern: parserKey,
+                ...getErrorInfo(error),
+            });
+        }
+    }
+
+    private async executeParser(
+        parser: { parser: string; kind: ParserKind },
+        html: string
+    ): Promise<unknown> {
+        if (parser.kind === 'javascript') {
+            return sanitizeParseResult(await this.sandbox.execute(parser.parser, html));
+        }
+
+        try {
+            const spec = parseSelectorSpec(parser.parser);
+            return sanitizeParseResult(runSelectorSpec(getCleanedCheerioInstance(html), spec));
+        } catch (error) {
+            throw new ApiError(500, {
+                error: `Parser execution failed: ${getErrorInfo(error).message}`,
+                code: PARSER_EXECUTION_FAILED,
+            });
+        }
+    }
+
     private async generateParser(
-        url: string,
-        html: string,
-        urlPattern: string
+        request: GenerationRequest,
+        failure?: ParserFeedback
     ): Promise<ParserResponse> {
-        const existingRequest = this.ongoingRequests.get(urlPattern);
+        const { parserKey } = request;
+
+        const existingRequest = this.ongoingRequests.get(parserKey);
         if (existingRequest) {
-            logger.info(`Waiting for ongoing parser generation for URL pattern: ${urlPattern}`);
+            logger.info(`Waiting for ongoing parser generation for URL pattern: ${parserKey}`);
             return await existingRequest;
         }
 
-        const requestPromise = this.performParserGeneration(url, html, urlPattern);
+        const requestPromise = this.performParserGeneration(request, failure);
 
-        this.ongoingRequests.set(urlPattern, requestPromise);
+        this.ongoingRequests.set(parserKey, requestPromise);
 
         try {
             return await requestPromise;
         } finally {
-            this.ongoingRequests.delete(urlPattern);
+            this.ongoingRequests.delete(parserKey);
         }
     }
 
     private async performParserGeneration(
-        url: string,
-        html: string,
-        urlPattern: string
+        request: GenerationRequest,
+        failure?: ParserFeedback
     ): Promise<ParserResponse> {
+        const { urlPattern, parserKey, kind, schema, samples } = request;
+
         try {
-            const parserCode = await this.parserGenerator.generateParser(url, html);
+            let feedback = failure;
 
-            const parser = await this.storage.set(urlPattern, parserCode);
+            for (let attempt = 0; attempt <= this.maxRepairAttempts; attempt++) {
+                // Repairs refine a single parser rather than drawing new candidates
+                const candidates = await this.generateCandidates(
+                    request,
+                    feedback,
+                    attempt === 0 ? request.candidates : 1
+                );
+                const selected = this.selectCandidate(candidates);
 
-            return {
-                parser: parser.parser,
-                createdAt: parser.createdAt,
-                cached: false,
+                if (selected !== undefined) {
+                    const parser = await this.storage.set(
+                        parserKey,
+                        candidates[selected].parserCode || '',
+                        {
+                            source: failure ? 'healed' : 'generated',
+                            attempts: attempt + 1,
+                            samples: samples.length + 1,
+                            ...(candidates[selected].model
+                                ? { model: candidates[selected].model }
+                                : {}),
+                            ...(request.fingerprint ? { fingerprint: request.fingerprint } : {}),
+                            ...(candidates.length > 1
+                                ? {
+                                      candidates: candidates.map(describeCandidate),
+                                      selectedCandidate: selected,
+                                  }
+                                : {}),
+                        },
+                        kind
+                    );
+
+                    return {
+                        parser: parser.parser,
+                        kind: parser.kind,
+                        createdAt: parser.createdAt,
+                        version: parser.version,
+                        cached: false,
+                        urlPattern,
+                        schemaHash: schema ? hashOutputSchema(schema) : undefined,
+                        parserKey,
+                        templateId: parser.metadata?.fingerprint?.hash,
+                        matchedPattern: urlPattern,
+                    };
+                }
+
+                const rejected = candidates.find(candidate => candidate.validation) || {};
+                const validation = rejected.validation;
+                const error =
+                    validation && !validation.valid ? validation.error : rejected.error || '';
+
+                logger.warn('Generated parser failed validation', {
+                    urlPattern: parserKey,
+                    attempt: attempt + 1,
+                    candidates: candidates.length,
+                    error,
+                });
+
+                feedback = {
+                    previousParser: rejected.parserCode || '',
+                    error,
+                    output: validation?.output,
+                };
+            }
+
+            throw new ApiError(422, {
+                error: `Generated parser failed validation after ${this.maxRepairAttempts + 1} attempts`,
+                code: 'PARSER_VALIDATION_FAILED',
+                lastError: feedback?.error,
                 urlPattern,
-            };
+            });
         } catch (error) {
             logger.error('Error generating parser:', getErrorInfo(error));
+            if (error instanceof ApiError) {
+                throw error;
+            }
             throw new Error(
                 `Failed to generate parser: ${error instanceof Error ? error.message : 'Unknown error'}`
             );
         }
     }
+
+    /**
+     * Generates `count` parsers concurrently, at different temperatures, and
+     * validates each on every sample. Valid candidates are scored on the current
+     * page when there is more than one to choose from.
+     */
+    private async generateCandidates(
+        request: GenerationRequest,
+        feedback: ParserFeedback | undefined,
+        count: number
+    ): Promise<ParserCandidate[]> {
+        const { url, html, kind, schema, samples } = request;
+        const allSamples = [{ url, html }, ...samples];
+        const temperatures = Array.from({ length: count }, (_, index) =>
+            index === 0
+                ? undefined
+                : CANDIDATE_TEMPERATURES[(index - 1) % CANDIDATE_TEMPERATURES.length]
+        );
+
+        const generated = await Promise.allSettled(
+            temperatures.map(temperature =>
+                this.parserGenerator.generateParser(url, html, {
+                    kind,
+                    schema,
+                    feedback,
+                    samples,
+                    temperature,
+                })
+            )
+        );
+        // Only give up when no candidate could be generated at all
+        const firstRejected = generated.find(result => result.status === 'rejected');
+        if (firstRejected?.status === 'rejected' && generated.every(r => r.status === 'rejected')) {
+            throw firstRejected.reason;
+        }
+
+        const candidates: ParserCandidate[] = [];
+        for (const [index, result] of generated.entries()) {
+            const temperature = temperatures[index];
+            if (result.status === 'rejected') {
+                candidates.push({ temperature, error: getErrorInfo(result.reason).message });
+                continue;
+            }
+
+            const validation = await this.validateParser(
+                { parser: result.value.parser, kind },
+                allSamples,
+                schema
+            );
+            candidates.push({
+                temperature,
+                parserCode: result.value.parser,
+                model: result.value.model,
+                validation,
+                score:
+                    count > 1 && validation.valid
+                        ? scoreParseResult(validation.output, html)
+                        : undefined,
+            });
+        }
+
+        return candidates;
+    }
+
+    // Index of the valid candidate with the highest score; the earliest wins a tie
+    private selectCandidate(candidates: ParserCandidate[]): number | undefined {
+        let selected: number | undefined;
+        candidates.forEach((candidate, index) => {
+            if (!candidate.validation?.valid) {
+                return;
+            }
+            const best = selected === undefined ? undefined : candidates[selected].score?.total;
+            if (best === undefined || (candidate.score?.total ?? 0) > best) {
+                selected = index;
+            }
+        });
+
+        if (selected !== undefined && candidates.length > 1) {
+            logger.info('Selected parser candidate', {
+                selected,
+                scores: candidates.map(candidate => candidate.score?.total ?? null),
+            });
+        }
+        return selected;
+    }
+
+    /**
+     * The stored parser for the page's template: an exact fingerprint match,
+     * else the most similar template cluster of the same pattern above the
+     * similarity threshold, else a parser stored before templates were fingerprinted.
+     */
+    private async findCachedParser(
+        urlPattern: string,
+        schema?: OutputSchema,
+        fingerprint?: DomFingerprint
+    ): Promise<StoredParser | null> {
+        const patternKey = getParserKey(urlPattern, schema);
+        if (!fingerprint) {
+            return await this.storage.get(patternKey);
+        }
+
+        const exact = await this.storage.get(getParserKey(urlPattern, schema, fingerprint.hash));
+        if (exact) {
+            return exact;
+        }
+
+        const clusterPrefix = `${patternKey}#template=`;
+        let best: StoredParser | null = null;
+        let bestSimilarity = this.templateSimilarity;
+        for (const parser of await this.storage.getByPrefix(clusterPrefix)) {
+            const features = parser.metadata?.fingerprint?.features;
+            if (!features) {
+                continue;
+            }
+            const similarity = getFingerprintSimilarity(fingerprint.features, features);
+            if (similarity >= bestSimilarity) {
+                best = parser;
+                bestSimilarity = similarity;
+            }
+        }
+
+        return best || (await this.storage.get(patternKey));
+    }
+
+    /**
+     * The parser of the most specific more general pattern, such as
+     * `example.com/blog/{id}` for `example.com/blog/{id}/comments`, whose output
+     * passes validation on the current page.
+     */
+    private async findFallbackParser(
+        urlPattern: string,
+        html: string,
+        schema?: OutputSchema,
+        fingerprint?: DomFingerprint
+    ): Promise<{ pattern: string; parser: StoredParser } | null> {
+        for (const pattern of getFallbackPatterns(urlPattern)) {
+            const parser = await this.findCachedParser(pattern, schema, fingerprint);
+            if (!parser) {
+                continue;
+            }
+
+            const validation = await this.validateOnSample(parser, html, schema);
+            if (validation.valid) {
+                logger.info('Using parser of a more general URL pattern', {
+                    urlPattern,
+                    matchedPattern: pattern,
+                });
+                return { pattern, parser };
+            }
+            logger.info('Parser of a more general URL pattern failed validation', {
+                urlPattern,
+                matchedPattern: pattern,
+                error: validation.error,
+            });
+        }
+        return null;
+    }
+
+    private clampCandidates(candidates: number): number {
+        return Math.min(MAX_CANDIDATES, Math.max(1, Math.floor(candidates)));
+    }
+
+    // A parser is only accepted when it works on every sample
+    private async validateParser(
+        parser: { parser: string; kind: ParserKind },
+        samples: HtmlSample[],
+        schema?: OutputSchema
+    ): Promise<ParserValidation> {
+        let output: unknown;
+        for (const sample of samples) {
+            const validation = await this.validateOnSample(parser, sample.html, schema);
+            if (!validation.valid) {
+                return samples.length > 1
+                    ? { ...validation, error: `On sample ${sample.url}: ${validation.error}` }
+                    : validation;
+            }
+            output = output ?? validation.output;
+        }
+
+        return { valid: true, output };
+    }
+
+    private async validateOnSample(
+        parser: { parser: string; kind: ParserKind },
+        html: string,
+        schema?: OutputSchema
+    ): Promise<ParserValidation> {
+        let output: unknown;
+        try {
+            output = await this.executeParser(parser, html);
+        } catch (error) {
+            return { valid: false, error: getErrorInfo(error).message };
+        }
+
+        if (isEmptyParseResult(output)) {
+            return { valid: false, error: 'Parser returned an empty result', output };
+        }
+
+        const problem = this.findResultProblem(output, schema);
+        if (problem) {
+            return { valid: false, error: problem.error, output };
+        }
+
+        return { valid: true, output };
+    }
+
+    private findResultProblem(result: unknown, schema?: OutputSchema): ResultProblem | null {
+        if (schema) {
+            const schemaErrors = validateAgainstSchema(result, schema);
+            if (schemaErrors.length > 0) {
+                return { error: describeSchemaErrors(schemaErrors), schemaErrors };
+            }
+        }
+
+        const coverage = getParseResultCoverage(result);
+        if (coverage < this.minResultCoverage) {
+            return {
+                error: `Parser output coverage ${coverage.toFixed(2)} is below the ${this.minResultCoverage} threshold`,
+            };
+        }
+
+        return null;
+    }
+
+    // Low coverage is tolerated once regeneration is off the table; a schema mismatch never is
+    private finishWithProblem(
+        parser: ParserResponse,
+        result: unknown,
+        problem: ResultProblem
+    ): ParseResponse {
+        if (problem.schemaErrors) {
+            throw new ApiError(422, {
+                error: 'Parse result does not match the output schema',
+                code: 'SCHEMA_VALIDATION_FAILED',
+                urlPattern: parser.urlPattern,
+                validationErrors: problem.schemaErrors,
+                result,
+            });
+        }
+
+        return { ...parser, result };
+    }
 }
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { ParserStorage, UrlPatternRule, UrlPatternRuleInput } from '../types';
+import { ApiError } from '../types/ApiError';
+import {
+    explainUrlPattern,
+    generateUrlPattern,
+    UrlPatternExplanation,
+} from '../utils/htmlExtractor';
+import { getErrorInfo, logger } from '../utils/logger';
+import {
+    canonicalizeHostname,
+    canonicalizeUrl,
+    DEFAULT_URL_CANONICALIZATION,
+    UrlCanonicalizationOptions,
+} from '../utils/urlCanonicalizer';
+import { ruleCoversPattern, validateUrlPatternRule } from '../utils/urlPatternRules';
+import { DEFAULT_QUERY_PARAM_CONFIG, QueryParamConfig } from '../utils/urlQueryPattern';
+
+export interface AffectedParser {
+    urlPattern: string;
+    createdAt: Date;
+}
+
+export interface UrlPatternRuleChange {
+    rule: UrlPatternRule;
+    // Cached parsers whose pattern the old or new version of the rule covers
+    affectedParsers: AffectedParser[];
+}
+
+export interface UrlPatternRuleServiceOptions {
+    queryParams?: QueryParamConfig;
+    canonicalization?: UrlCanonicalizationOptions;
+    // How long loaded rules are used before being read again, to see other processes' changes
+    reloadIntervalMs?: number;
+}
+
+const DEFAULT_RELOAD_INTERVAL_MS = 30000;
+
+/**
+ * Manages the URL pattern override rules kept in parser storage, and generates
+ * URL patterns with them. Rules are written through on every change and read
+ * again from storage once they are older than `reloadIntervalMs`.
+ */
+export class UrlPatternRuleService {
+    private storage: ParserStorage;
+    private queryParams: QueryParamConfig;
+    private canonicalization: UrlCanonicalizationOptions;
+    private reloadIntervalMs: number;
+    private rules: UrlPatternRule[] | null = null;
+    private loadedAt = 0;
+    private loading: Promise<UrlPatternRule[]> | null = null;
+
+    constructor(storage: ParserStorage, options: UrlPatternRuleServiceOptions = {}) {
+        this.storage = storage;
+        this.queryParams = options.queryParams || DEFAULT_QUERY_PARAM_CONFIG;
+        this.canonicalization = options.canonicalization || DEFAULT_URL_CANONICALIZATION;
+        this.reloadIntervalMs = options.reloadIntervalMs ?? DEFAULT_RELOAD_INTERVAL_MS;
+    }
+
+    async getUrlPattern(url: string): Promise<string> {
+        return generateUrlPattern(url, {
+            rules: await this.list(),
+            queryParams: this.queryParams,
+            canonicalization: this.canonicalization,
+        });
+    }
+
+    // Like the URL pattern, falls back to the URL as given when it cannot be parsed
+    canonicalizeUrl(url: string): string {
+        try {
+            return canonicalizeUrl(url, this.canonicalization);
+        } catch (error) {
+            logger.warn('Error canonicalizing URL', { url, ...getErrorInfo(error) });
+            return url;
+        }
+    }
+
+    async explainUrlPattern(url: string): Promise<UrlPatternExplanation> {
+        const rules = await this.list();
+        try {
+            return explainUrlPattern(url, {
+                rules,
+                queryParams: this.queryParams,
+                canonicalization: this.canonicalization,
+            });
+        } catch (error) {
+            throw new ApiError(400, {
+                error: `Invalid URL: ${(error as Error).message}`,
+                code: 'INVALID_URL',
+                url,
+            });
+        }
+    }
+
+    async list(): Promise<UrlPatternRule[]> {
+        if (this.rules && Date.now() - this.loadedAt < this.reloadIntervalMs) {
+            return this.rules;
+        }
+        // Concurrent requests share one read
+        if (!this.loading) {
+            this.loading = this.load().finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    // Keeps serving the rules already loaded when storage cannot be read
+    private async load(): Promise<UrlPatternRule[]> {
+        try {
+            const rules = (await this.storage.getUrlPatternRules()).map(rule => ({
+                ...rule,
+                host: this.canonicalizeRuleHost(rule.host),
+            }));
+            this.rules = rules;
+            this.loadedAt = Date.now();
+            return rules;
+        } catch (error) {
+            if (!this.rules) {
+                throw error;
+            }
+            logger.warn('Failed to reload URL pattern rules', getErrorInfo(error));
+            this.loadedAt = Date.now();
+            return this.rules;
+        }
+    }
+
+    async get(id: string): Promise<UrlPatternRule> {
+        const rule = (await this.list()).find(r => r.id === id);
+        if (!rule) {
+            throw new ApiError(404, {
+                error: 'URL pattern rule not found',
+                code: 'RULE_NOT_FOUND',
+                id,
+            });
+        }
+        return rule;
+    }
+
+    async create(input: UrlPatternRuleInput): Promise<UrlPatternRuleChange> {
+        const fields = this.validate(input);
+        const now = new Date();
+        const rule: UrlPatternRule = {
+            id: randomUUID(),
+            ...fields,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        await this.save([...(await this.list()), rule]);
+        logger.info('Created URL pattern rule', { id: rule.id, host: rule.host, path: rule.path });
+
+        return { rule, affectedParsers: await this.findAffectedParsers([rule]) };
+    }
+
+    async update(id: string, input: UrlPatternRuleInput): Promise<UrlPatternRuleChange> {
+        const previous = await this.get(id);
+        const rule: UrlPatternRule = {
+            ...previous,
+            ...this.validate(input),
+            updatedAt: new Date(),
+        };
+
+        await this.save((await this.list()).map(r => (r.id === id ? rule : r)));
+        logger.info('Updated URL pattern rule', { id, host: rule.host, path: rule.path });
+
+        return { rule, affectedParsers: await this.findAffectedParsers([previous, rule]) };
+    }
+
+    async delete(id: string): Promise<UrlPatternRuleChange> {
+        const rule = await this.get(id);
+
+        await this.save((await this.list()).filter(r => r.id !== id));
+        logger.info('Deleted URL pattern rule', { id, host: rule.host, path: rule.path });
+
+        return { rule, affectedParsers: await this.findAffectedParsers([rule]) };
+    }
+
+    private validate(input: UrlPatternRuleInput): UrlPatternRuleInput {
+        try {
+            validateUrlPatternRule(input);
+        } catch (error) {
+            throw new ApiError(400, { error: (error as Error).message, code: 'INVALID_RULE' });
+        }
+
+        const { host, path, template, description } = input;
+        return {
+            host: this.canonicalizeRuleHost(host),
+            path,
+            template,
+            ...(description !== undefined ? { description } : {}),
+        };
+    }
+
+    /**
+     * Rules are matched against canonical URLs, so an exact host is kept in its
+     * canonical form: with `www.` stripping on, a rule for `www.example.com`
+     * applies to `example.com`. Wildcard domains are left as written.
+     */
+    private canonicalizeRuleHost(host: string): string {
+        return host.startsWith('*.')
+            ? host.toLowerCase()
+            : canonicalizeHostname(host, this.canonicalization);
+    }
+
+    private async save(rules: UrlPatternRule[]): Promise<void> {
+        await this.storage.saveUrlPatternRules(rules);
+        this.rules = rules;
+        this.loadedAt = Date.now();
+    }
+
+    private async findAffectedParsers(rules: UrlPatternRule[]): Promise<AffectedParser[]> {
+        const parsers = await this.storage.getAll(0);
+        return parsers
+            .filter(parser => {
+                // Parsers are keyed `<urlPattern>#schema=<hash>#template=<id>`
+                const urlPattern = parser.urlPattern.split('#')[0];
+                return rules.some(rule => ruleCoversPattern(rule, urlPattern));
+            })
+            .map(parser => ({ urlPattern: parser.urlPattern, createdAt: parser.createdAt }));
+    }
+}
@@ -1,15 +1,77 @@
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { StoredParser, ParserStorage } from '../types';
+import {
+    StoredParser,
+    ParserStorage,
+    ParserMetadata,
+    ParserKind,
+    ParserPage,
+    ParserQuery,
+    ParserStorageOptions,
+    ParserUsage,
+    UrlPatternRule,
+} from '../types';
+import { withFileLock, writeFileAtomic } from '../utils/fileLock';
+import { queryParsers } from '../utils/parserQuery';
+import { DEFAULT_MAX_PARSER_VERSIONS, retainVersions } from '../utils/versionRetention';
 import { logger, getErrorInfo } from '../utils/logger';
 
 const fsPromises = fs.promises;
 
+// Sanitized parser file names never start with an underscore, so this cannot collide
+const RULES_FILE = '_url-pattern-rules.json';
+const USAGE_FILE = '_usage.json';
+const INDEX_FILE = 'index.json';
+const LOCK_FILE = 'index.lock';
+const DEFAULT_USAGE_FLUSH_MS = 5000;
+
+const isParserFile = (file: string): boolean =>
+    file.endsWith('.json') && file !== INDEX_FILE && file !== RULES_FILE && file !== USAGE_FILE;
+
+// URL pattern to parser file name
+type ParserIndex = Map<string, string>;
+
+interface ParserHistory {
+    urlPattern: string;
+    versions: StoredParser[];
+}
+
+// URL pattern to its use count, counted across versions
+type UsageCounts = Map<string, ParserUsage>;
+
+export interface DiskParserStorageOptions extends ParserStorageOptions {
+    // How long uses are counted in memory before being written to `_usage.json`
+    usageFlushMs?: number;
+}
+
+// Files written before version history existed hold a single parser at the top level
+type LegacyParserFile = Omit<StoredParser, 'version' | 'metadata' | 'kind'>;
+
+/**
+ * Keeps one JSON file per URL pattern with its version history, and an
+ * `index.json` mapping each pattern to its file. Files are replaced through
+ * atomic renames, and writes hold an advisory lock on the directory, so several
+ * processes can share it. A missing index is rebuilt from the parser files.
+ * Only the newest `maxVersions` versions are kept, as every save rewrites the
+ * whole file. Uses are counted in memory and added to `_usage.json` every
+ * `usageFlushMs`, so running a parser never takes the lock.
+ */
 export class DiskParserStorage implements ParserStorage {
     private storageDir: string;
+    private maxVersions: number;
+    private usageFlushMs: number;
+    // Uses not written to the usage file yet
+    private pendingUsage: UsageCounts = new Map();
+    private usageFlushTimer: ReturnType<typeof setTimeout> | null = null;
 
-    constructor(storageDir: string = path.join(process.cwd(), 'tmp', 'parsers')) {
+    constructor(
+        storageDir: string = path.join(process.cwd(), 'tmp', 'parsers'),
+        options: DiskParserStorageOptions = {}
+    ) {
         this.storageDir = storageDir;
+        this.maxVersions = options.maxVersions ?? DEFAULT_MAX_PARSER_VERSIONS;
+        this.usageFlushMs = options.usageFlushMs ?? DEFAULT_USAGE_FLUSH_MS;
         this.ensureStorageDirectory().catch(error => {
             logger.error('Failed to initialize storage directory:', getErrorInfo(error));
         });
@@ -30,29 +92,202 @@ export class DiskParserStorage implements ParserStorage {
         }
     }
 
-    private getParserFilePath(urlPattern: string): string {
-        const sanitizedPattern = urlPattern
-            .replace(/[^a-zA-Z0-9.-]/g, '_')
-            .replace(/_+/g, '_')
-            .replace(/^_|_$/g, '');
+    // Serializes writes across calls and processes sharing the directory
+    private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+        await this.ensureStorageDirectory();
+        return withFileLock(path.join(this.storageDir, LOCK_FILE), fn);
+    }
+
+    private async readIndex(): Promise<ParserIndex> {
+        let fileData: string;
+        try {
+            fileData = await fsPromises.readFile(path.join(this.storageDir, INDEX_FILE), 'utf8');
+        } catch {
+            return this.rebuildIndex();
+        }
 
-        return path.join(this.storageDir, `${sanitizedPattern}.json`);
+        try {
+            const files: Record<string, string> = JSON.parse(fileData);
+            return new Map(Object.entries(files));
+        } catch (error) {
+            logger.warn('Parser index is unreadable, rebuilding it', getErrorInfo(error));
+            return this.rebuildIndex();
+        }
     }
 
-    async get(urlPattern: string): Promise<StoredParser | null> {
+    // Reads the URL pattern of every parser file, for directories written without an index
+    private async rebuildIndex(): Promise<ParserIndex> {
+        const index: ParserIndex = new Map();
+        let files: string[];
         try {
-            const filePath = this.getParserFilePath(urlPattern);
+            files = await fsPromises.readdir(this.storageDir);
+        } catch {
+            return index;
+        }
 
+        for (const file of files.filter(isParserFile).sort()) {
             try {
-                await fsPromises.access(filePath);
-            } catch {
-                return null;
+                const history = await this.readHistory(path.join(this.storageDir, file));
+                if (!index.has(history.urlPattern)) {
+                    index.set(history.urlPattern, file);
+                }
+            } catch (error) {
+                logger.warn('Failed to index parser file', { file, ...getErrorInfo(error) });
             }
+        }
+        return index;
+    }
 
-            const fileData = await fsPromises.readFile(filePath, 'utf8');
-            const parser: StoredParser = JSON.parse(fileData);
+    private async writeIndex(index: ParserIndex): Promise<void> {
+        await writeFileAtomic(
+            path.join(this.storageDir, INDEX_FILE),
+            JSON.stringify(Object.fromEntries(index), null, 2)
+        );
+    }
+
+    /**
+     * A readable file name for a new pattern. The sanitized pattern alone is
+     * ambiguous (`a.com/x_y` and `a.com/x/y` both give `a.com_x_y`), so a hash
+     * of the exact pattern is appended, and a counter in the unlikely case that
+     * the name is still taken.
+     */
+    private allocateFileName(urlPattern: string, index: ParserIndex): string {
+        const sanitizedPattern =
+            urlPattern
+                .replace(/[^a-zA-Z0-9.-]/g, '_')
+                .replace(/_+/g, '_')
+                .replace(/^_|_$/g, '') || 'parser';
+        const hash = createHash('sha1').update(urlPattern).digest('hex').substring(0, 8);
+        const taken = new Set(index.values());
+
+        let fileName = `${sanitizedPattern}-${hash}.json`;
+        for (let suffix = 2; taken.has(fileName); suffix++) {
+            fileName = `${sanitizedPattern}-${hash}-${suffix}.json`;
+        }
+        return fileName;
+    }
+
+    private async readHistory(filePath: string): Promise<ParserHistory> {
+        const fileData = await fsPromises.readFile(filePath, 'utf8');
+        const data: ParserHistory | LegacyParserFile = JSON.parse(fileData);
+
+        const history: ParserHistory =
+            'versions' in data
+                ? data
+                : {
+                      urlPattern: data.urlPattern,
+                      versions: [
+                          {
+                              ...data,
+                              kind: 'javascript',
+                              version: 1,
+                              metadata: { source: 'generated' },
+                          },
+                      ],
+                  };
+
+        history.versions.forEach(parser => {
             parser.createdAt = new Date(parser.createdAt);
-            return parser;
+            parser.kind = parser.kind || 'javascript';
+        });
+        return history;
+    }
+
+    // Usage lives in its own file, so it is never written into a version
+    private async writeHistory(fileName: string, history: ParserHistory): Promise<void> {
+        const fileData = JSON.stringify(
+            {
+                urlPattern: history.urlPattern,
+                versions: history.versions.map(({ usage: _usage, ...parser }) => parser),
+            },
+            null,
+            2
+        );
+        await writeFileAtomic(path.join(this.storageDir, fileName), fileData);
+    }
+
+    private async readUsage(): Promise<UsageCounts> {
+        let fileData: string;
+        try {
+            fileData = await fsPromises.readFile(path.join(this.storageDir, USAGE_FILE), 'utf8');
+        } catch {
+            return new Map();
+        }
+
+        try {
+            const counts: Record<string, { count: number; lastUsedAt: string | null }> =
+                JSON.parse(fileData);
+            return new Map(
+                Object.entries(counts).map(([urlPattern, usage]) => [
+                    urlPattern,
+                    {
+                        count: usage.count,
+                        lastUsedAt: usage.lastUsedAt ? new Date(usage.lastUsedAt) : null,
+                    },
+                ])
+            );
+        } catch (error) {
+            logger.warn('Parser usage file is unreadable, counting from zero', getErrorInfo(error));
+            return new Map();
+        }
+    }
+
+    private async writeUsage(usage: UsageCounts): Promise<void> {
+        await writeFileAtomic(
+            path.join(this.storageDir, USAGE_FILE),
+            JSON.stringify(Object.fromEntries(usage), null, 2)
+        );
+    }
+
+    // Copies of the parsers with their usage, from the usage file and the uses not written yet
+    private async withUsage(parsers: StoredParser[]): Promise<StoredParser[]> {
+        if (parsers.length === 0) {
+            return parsers;
+        }
+
+        const stored = await this.readUsage();
+        return parsers.map(parser => {
+            const saved = stored.get(parser.urlPattern);
+            const pending = this.pendingUsage.get(parser.urlPattern);
+            return {
+                ...parser,
+                usage: {
+                    count: (saved?.count || 0) + (pending?.count || 0),
+                    lastUsedAt: pending?.lastUsedAt || saved?.lastUsedAt || null,
+                },
+            };
+        });
+    }
+
+    private async withUsageOf(parser: StoredParser | null): Promise<StoredParser | null> {
+        return parser ? (await this.withUsage([parser]))[0] : null;
+    }
+
+    private async loadHistory(
+        urlPattern: string,
+        index?: ParserIndex
+    ): Promise<ParserHistory | null> {
+        const fileName = (index || (await this.readIndex())).get(urlPattern);
+        if (!fileName) {
+            return null;
+        }
+        const filePath = path.join(this.storageDir, fileName);
+
+        try {
+            await fsPromises.access(filePath);
+        } catch {
+            return null;
+        }
+
+        return this.readHistory(filePath);
+    }
+
+    async get(urlPattern: string): Promise<StoredParser | null> {
+        try {
+            const history = await this.loadHistory(urlPattern);
+            return await this.withUsageOf(
+                history ? history.versions[history.versions.length - 1] : null
+            );
         } catch (error) {
             logger.error('Failed to load parser for pattern', {
                 urlPattern,
@@ -62,19 +297,43 @@ export class DiskParserStorage implements ParserStorage {
         }
     }
 
-    async set(urlPattern: string, parser: string): Promise<StoredParser> {
+    async set(
+        urlPattern: string,
+        parser: string,
+        metadata: ParserMetadata = { source: 'generated' },
+        kind: ParserKind = 'javascript'
+    ): Promise<StoredParser> {
         try {
-            const parserData: StoredParser = {
-                urlPattern,
-                parser,
-                createdAt: new Date(),
-            };
+            const stored = await this.withLock(async () => {
+                const index = await this.readIndex();
+                const history = (await this.loadHistory(urlPattern, index)) || {
+                    urlPattern,
+                    versions: [],
+                };
+                const latest = history.versions[history.versions.length - 1];
+
+                const parserData: StoredParser = {
+                    urlPattern,
+                    parser,
+                    kind,
+                    createdAt: new Date(),
+                    version: latest ? latest.version + 1 : 1,
+                    metadata,
+                };
+                history.versions = retainVersions(
+                    [...history.versions, parserData],
+                    this.maxVersions
+                );
 
-            const filePath = this.getParserFilePath(urlPattern);
-            const fileData = JSON.stringify(parserData, null, 2);
+                const fileName = index.get(urlPattern) || this.allocateFileName(urlPattern, index);
 
-            await fsPromises.writeFile(filePath, fileData, 'utf8');
-            return parserData;
+                // The parser file first: a crash before the index is written leaves an unlisted file
+                await this.writeHistory(fileName, history);
+                index.set(urlPattern, fileName);
+                await this.writeIndex(index);
+                return parserData;
+            });
+            return (await this.withUsage([stored]))[0];
         } catch (error) {
             logger.error('Failed to save parser for pattern', {
                 urlPattern,
@@ -86,12 +345,47 @@ export class DiskParserStorage implements ParserStorage {
         }
     }
 
+    async getVersions(urlPattern: string): Promise<StoredParser[]> {
+        try {
+            const history = await this.loadHistory(urlPattern);
+            return history ? await this.withUsage([...history.versions].reverse()) : [];
+        } catch (error) {
+            logger.error('Failed to load parser versions for pattern', {
+                urlPattern,
+                ...getErrorInfo(error),
+            });
+            return [];
+        }
+    }
+
+    async getVersion(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const versions = await this.getVersions(urlPattern);
+        return versions.find(p => p.version === version) || null;
+    }
+
+    async rollback(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const target = await this.getVersion(urlPattern, version);
+        if (!target) {
+            return null;
+        }
+
+        return this.set(
+            urlPattern,
+            target.parser,
+            { ...target.metadata, source: 'rollback', restoredFrom: version },
+            target.kind
+        );
+    }
+
     async has(urlPattern: string): Promise<boolean> {
         try {
-            const filePath = this.getParserFilePath(urlPattern);
+            const fileName = (await this.readIndex()).get(urlPattern);
+            if (!fileName) {
+                return false;
+            }
 
             try {
-                await fsPromises.access(filePath);
+                await fsPromises.access(path.join(this.storageDir, fileName));
                 return true;
             } catch {
                 return false;
@@ -107,47 +401,86 @@ export class DiskParserStorage implements ParserStorage {
 
     async getAll(limit: number = 10): Promise<StoredParser[]> {
         try {
-            let files = await fsPromises.readdir(this.storageDir);
-            if (limit) {
-                files = files.slice(0, limit);
-            }
             const parsers: StoredParser[] = [];
 
-            for (const file of files) {
-                if (file.endsWith('.json') && file !== 'index.json') {
-                    try {
-                        const filePath = path.join(this.storageDir, file);
-                        const fileData = await fsPromises.readFile(filePath, 'utf8');
-                        const parser: StoredParser = JSON.parse(fileData);
-                        parser.createdAt = new Date(parser.createdAt);
-                        parsers.push(parser);
-                    } catch (error) {
-                        logger.warn('Failed to load parser from file', {
-                            file,
-                            ...getErrorInfo(error),
-                        });
-                    }
+            for (const file of (await this.readIndex()).values()) {
+                if (limit && parsers.length >= limit) {
+                    break;
+                }
+                try {
+                    const history = await this.readHistory(path.join(this.storageDir, file));
+                    parsers.push(history.versions[history.versions.length - 1]);
+                } catch (error) {
+                    logger.warn('Failed to load parser from file', {
+                        file,
+                        ...getErrorInfo(error),
+                    });
                 }
             }
 
-            return parsers;
+            return await this.withUsage(parsers);
         } catch (error) {
             logger.error('Failed to load all parsers:', getErrorInfo(error));
             return [];
         }
     }
 
+    // Only reads the files of matching patterns, found through the index
+    async getByPrefix(prefix: string): Promise<StoredParser[]> {
+        try {
+            const parsers: StoredParser[] = [];
+            for (const [urlPattern, file] of await this.readIndex()) {
+                if (!urlPattern.startsWith(prefix)) {
+                    continue;
+                }
+                try {
+                    const history = await this.readHistory(path.join(this.storageDir, file));
+                    parsers.push(history.versions[history.versions.length - 1]);
+                } catch (error) {
+                    logger.warn('Failed to load parser from file', {
+                        file,
+                        ...getErrorInfo(error),
+                    });
+                }
+            }
+            return await this.withUsage(parsers);
+        } catch (error) {
+            logger.error('Failed to load parsers by prefix', { prefix, ...getErrorInfo(error) });
+            return [];
+        }
+    }
+
+    // Reads every parser file; listing large directories is faster with the SQLite storage
+    async query(query: ParserQuery): Promise<ParserPage> {
+        return queryParsers(await this.getAll(0), query);
+    }
+
     async delete(urlPattern: string): Promise<boolean> {
         try {
-            const filePath = this.getParserFilePath(urlPattern);
+            return await this.withLock(async () => {
+                const index = await this.readIndex();
+                const fileName = index.get(urlPattern);
+                if (!fileName) {
+                    return false;
+                }
 
-            try {
-                await fsPromises.access(filePath);
-                await fsPromises.unlink(filePath);
-                return true;
-            } catch {
-                return false;
-            }
+                // The file first: a crash before the index is written leaves an entry without a file
+                let existed = true;
+                try {
+                    await fsPromises.unlink(path.join(this.storageDir, fileName));
+                } catch {
+                    existed = false;
+                }
+                index.delete(urlPattern);
+                await this.writeIndex(index);
+
+                this.pendingUsage.delete(urlPattern);
+                const usage = await this.readUsage();
+                if (usage.delete(urlPattern)) {
+                    await this.writeUsage(usage);
+                }
+                return existed;
+            });
         } catch (error) {
             logger.error('Failed to remove parser for pattern', {
                 urlPattern,
@@ -158,7 +491,95 @@ export class DiskParserStorage implements ParserStorage {
     }
 
     async size(): Promise<number> {
-        const files = await fsPromises.readdir(this.storageDir);
-        return files.length;
+        return (await this.readIndex()).size;
+    }
+
+    // Only counts in memory; the count is written by the next flush
+    async recordUsage(urlPattern: string): Promise<void> {
+        const pending = this.pendingUsage.get(urlPattern);
+        this.pendingUsage.set(urlPattern, {
+            count: (pending?.count || 0) + 1,
+            lastUsedAt: new Date(),
+        });
+
+        if (!this.usageFlushTimer) {
+            this.usageFlushTimer = setTimeout(() => {
+                this.usageFlushTimer = null;
+                this.flushUsage().catch(error => {
+                    logger.warn('Failed to write parser usage', getErrorInfo(error));
+                });
+            }, this.usageFlushMs);
+            this.usageFlushTimer.unref();
+        }
+    }
+
+    /**
+     * Adds the uses counted since the last flush to the usage file, in one write
+     * under the lock. Uses of patterns deleted in the meantime are dropped, and
+     * the counts are kept for the next flush when the write fails.
+     */
+    async flushUsage(): Promise<void> {
+        if (this.pendingUsage.size === 0) {
+            return;
+        }
+        const pending = this.pendingUsage;
+        this.pendingUsage = new Map();
+
+        try {
+            await this.withLock(async () => {
+                const index = await this.readIndex();
+                const usage = await this.readUsage();
+                for (const [urlPattern, uses] of pending) {
+                    if (index.has(urlPattern)) {
+                        usage.set(urlPattern, {
+                            count: (usage.get(urlPattern)?.count || 0) + uses.count,
+                            lastUsedAt: uses.lastUsedAt,
+                        });
+                    }
+                }
+                await this.writeUsage(usage);
+            });
+        } catch (error) {
+            for (const [urlPattern, uses] of pending) {
+                const newer = this.pendingUsage.get(urlPattern);
+                this.pendingUsage.set(urlPattern, {
+                    count: uses.count + (newer?.count || 0),
+                    lastUsedAt: newer?.lastUsedAt || uses.lastUsedAt,
+                });
+            }
+            throw error;
+        }
+    }
+
+    async getUrlPatternRules(): Promise<UrlPatternRule[]> {
+        let fileData: string;
+        try {
+            fileData = await fsPromises.readFile(path.join(this.storageDir, RULES_FILE), 'utf8');
+        } catch {
+            return [];
+        }
+
+        const rules: UrlPatternRule[] = JSON.parse(fileData);
+        return rules.map(rule => ({
+            ...rule,
+            createdAt: new Date(rule.createdAt),
+            updatedAt: new Date(rule.updatedAt),
+        }));
+    }
+
+    async saveUrlPatternRules(rules: UrlPatternRule[]): Promise<void> {
+        try {
+            await this.withLock(() =>
+                writeFileAtomic(
+                    path.join(this.storageDir, RULES_FILE),
+                    JSON.stringify(rules, null, 2)
+                )
+            );
+        } catch (error) {
+            logger.error('Failed to save URL pattern rules:', getErrorInfo(error));
+            throw new Error(
+                `Cannot save URL pattern rules: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
     }
 }
@@ -1,20 +1,84 @@
-import { StoredParser, ParserStorage } from '../types';
+import {
+    StoredParser,
+    ParserStorage,
+    ParserMetadata,
+    ParserKind,
+    ParserPage,
+    ParserQuery,
+    ParserStorageOptions,
+    ParserUsage,
+    UrlPatternRule,
+} from '../types';
+import { queryParsers } from '../utils/parserQuery';
+import { DEFAULT_MAX_PARSER_VERSIONS, retainVersions } from '../utils/versionRetention';
 
 export class InMemoryParserStorage implements ParserStorage {
-    private parsers: Map<string, StoredParser> = new Map();
+    private parsers: Map<string, StoredParser[]> = new Map();
+    private usage: Map<string, ParserUsage> = new Map();
+    private urlPatternRules: UrlPatternRule[] = [];
+    private maxVersions: number;
+
+    constructor(options: ParserStorageOptions = {}) {
+        this.maxVersions = options.maxVersions ?? DEFAULT_MAX_PARSER_VERSIONS;
+    }
+
+    // A copy with the pattern's current usage, which is counted across versions
+    private withUsage(parser: StoredParser): StoredParser {
+        const usage = this.usage.get(parser.urlPattern);
+        return { ...parser, usage: usage ? { ...usage } : { count: 0, lastUsedAt: null } };
+    }
+
+    private getCurrent(versions: StoredParser[]): StoredParser {
+        return this.withUsage(versions[versions.length - 1]);
+    }
 
     async get(urlPattern: string): Promise<StoredParser | null> {
-        return this.parsers.get(urlPattern) || null;
+        const versions = this.parsers.get(urlPattern);
+        return versions ? this.getCurrent(versions) : null;
     }
 
-    async set(urlPattern: string, parser: string): Promise<StoredParser> {
+    async set(
+        urlPattern: string,
+        parser: string,
+        metadata: ParserMetadata = { source: 'generated' },
+        kind: ParserKind = 'javascript'
+    ): Promise<StoredParser> {
+        const versions = this.parsers.get(urlPattern) || [];
+        const latest = versions[versions.length - 1];
         const storedParser: StoredParser = {
             urlPattern,
             parser,
+            kind,
             createdAt: new Date(),
+            version: latest ? latest.version + 1 : 1,
+            metadata,
         };
-        this.parsers.set(urlPattern, storedParser);
-        return storedParser;
+        this.parsers.set(urlPattern, retainVersions([...versions, storedParser], this.maxVersions));
+        return this.withUsage(storedParser);
+    }
+
+    async getVersions(urlPattern: string): Promise<StoredParser[]> {
+        return (this.parsers.get(urlPattern) || []).map(p => this.withUsage(p)).reverse();
+    }
+
+    async getVersion(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const versions = this.parsers.get(urlPattern) || [];
+        const parser = versions.find(p => p.version === version);
+        return parser ? this.withUsage(parser) : null;
+    }
+
+    async rollback(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const target = await this.getVersion(urlPattern, version);
+        if (!target) {
+            return null;
+        }
+
+        return this.set(
+            urlPattern,
+            target.parser,
+            { ...target.metadata, source: 'rollback', restoredFrom: version },
+            target.kind
+        );
     }
 
     async has(urlPattern: string): Promise<boolean> {
@@ -22,14 +86,44 @@ export class InMemoryParserStorage implements ParserStorage {
     }
 
     async getAll(limit: number = 10): Promise<StoredParser[]> {
-        return Array.from(this.parsers.values()).slice(0, limit);
+        const parsers = Array.from(this.parsers.values()).map(versions =>
+            this.getCurrent(versions)
+        );
+        // As on disk, a limit of 0 returns every parser
+        return limit ? parsers.slice(0, limit) : parsers;
+    }
+
+    async getByPrefix(prefix: string): Promise<StoredParser[]> {
+        return Array.from(this.parsers.entries())
+            .filter(([urlPattern]) => urlPattern.startsWith(prefix))
+            .map(([, versions]) => this.getCurrent(versions));
+    }
+
+    async query(query: ParserQuery): Promise<ParserPage> {
+        return queryParsers(await this.getAll(0), query);
     }
 
     async delete(urlPattern: string): Promise<boolean> {
+        this.usage.delete(urlPattern);
         return this.parsers.delete(urlPattern);
     }
 
     async size(): Promise<number> {
         return this.parsers.size;
     }
+
+    async recordUsage(urlPattern: string): Promise<void> {
+        if (this.parsers.has(urlPattern)) {
+            const count = (this.usage.get(urlPattern)?.count || 0) + 1;
+            this.usage.set(urlPattern, { count, lastUsedAt: new Date() });
+        }
+    }
+
+    async getUrlPatternRules(): Promise<UrlPatternRule[]> {
+        return [...this.urlPatternRules];
+    }
+
+    async saveUrlPatternRules(rules: UrlPatternRule[]): Promise<void> {
+        this.urlPatternRules = [...rules];
+    }
 }
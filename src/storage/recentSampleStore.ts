@@ -0,0 +1,51 @@
+import { HtmlSample } from '../types';
+
+const DEFAULT_SAMPLES_PER_PATTERN = 3;
+const DEFAULT_MAX_PATTERNS = 100;
+
+/**
+ * Keeps the most recent pages seen for each URL pattern, so a parser can be
+ * generated from, and validated against, more than the page that triggered it.
+ * Patterns are evicted least recently used first.
+ */
+export class RecentSampleStore {
+    private samples: Map<string, HtmlSample[]> = new Map();
+    private samplesPerPattern: number;
+    private maxPatterns: number;
+
+    constructor(
+        samplesPerPattern: number = DEFAULT_SAMPLES_PER_PATTERN,
+        maxPatterns: number = DEFAULT_MAX_PATTERNS
+    ) {
+        this.samplesPerPattern = samplesPerPattern;
+        this.maxPatterns = maxPatterns;
+    }
+
+    add(urlPattern: string, sample: HtmlSample): void {
+        if (this.samplesPerPattern <= 0) {
+            return;
+        }
+
+        const samples = (this.samples.get(urlPattern) || []).filter(s => s.url !== sample.url);
+        samples.unshift(sample);
+
+        this.samples.delete(urlPattern);
+        this.samples.set(urlPattern, samples.slice(0, this.samplesPerPattern));
+
+        if (this.samples.size > this.maxPatterns) {
+            const oldest = this.samples.keys().next().value;
+            if (oldest !== undefined) {
+                this.samples.delete(oldest);
+            }
+        }
+    }
+
+    delete(urlPattern: string): void {
+        this.samples.delete(urlPattern);
+    }
+
+    // Newest first
+    get(urlPattern: string): HtmlSample[] {
+        return this.samples.get(urlPattern) || [];
+    }
+}
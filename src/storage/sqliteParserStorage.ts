@@ -0,0 +1,474 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    StoredParser,
+    ParserStorage,
+    ParserMetadata,
+    ParserKind,
+    ParserPage,
+    ParserQuery,
+    ParserStorageOptions,
+    UrlPatternRule,
+} from '../types';
+import { logger, getErrorInfo } from '../utils/logger';
+import {
+    DEFAULT_PARSER_PAGE_SIZE,
+    decodeParserCursor,
+    encodeParserCursor,
+    getPatternDomain,
+    getSearchTerms,
+    getSortValue,
+} from '../utils/parserQuery';
+import { DEFAULT_MAX_PARSER_VERSIONS, retainVersions } from '../utils/versionRetention';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS parsers (
+        url_pattern TEXT PRIMARY KEY,
+        domain TEXT NOT NULL,
+        current_version INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        use_count INTEGER NOT NULL DEFAULT 0,
+        last_used_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS parsers_domain_updated_at ON parsers (domain, updated_at);
+    CREATE INDEX IF NOT EXISTS parsers_updated_at ON parsers (updated_at);
+    CREATE INDEX IF NOT EXISTS parsers_last_used_at ON parsers (last_used_at);
+
+    CREATE TABLE IF NOT EXISTS parser_versions (
+        url_pattern TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        code TEXT NOT NULL,
+        metadata TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (url_pattern, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS url_pattern_rules (
+        position INTEGER PRIMARY KEY,
+        rule TEXT NOT NULL
+    );
+`;
+
+interface ParserRow {
+    url_pattern: string;
+    version: number;
+    kind: ParserKind;
+    code: string;
+    metadata: string | null;
+    created_at: string;
+    use_count: number;
+    last_used_at: string | null;
+}
+
+export interface ParserImportSummary {
+    imported: number;
+    versions: number;
+    // Patterns already in the database, which are left as they are
+    skipped: number;
+    rules: number;
+}
+
+const toStoredParser = (row: ParserRow): StoredParser => ({
+    urlPattern: row.url_pattern,
+    parser: row.code,
+    kind: row.kind,
+    createdAt: new Date(row.created_at),
+    version: row.version,
+    ...(row.metadata ? { metadata: JSON.parse(row.metadata) as ParserMetadata } : {}),
+    usage: {
+        count: row.use_count,
+        lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+    },
+});
+
+// Matches the order of `getSortValue`: the current version's date, or the last use
+const SORT_EXPRESSIONS = {
+    createdAt: 'p.updated_at',
+    lastUsedAt: "COALESCE(p.last_used_at, '')",
+};
+
+const escapeLike = (term: string): string => term.replace(/[\\%_]/g, char => `\\${char}`);
+
+const VERSION_COLUMNS = `
+    v.url_pattern, v.version, v.kind, v.code, v.metadata, v.created_at,
+    p.use_count, p.last_used_at
+`;
+
+/**
+ * Keeps parsers in an embedded SQLite database: one row per URL pattern with
+ * its usage counters, and one row per version with the code and metadata.
+ * Writes run in transactions, and WAL mode lets several processes share the file.
+ */
+export class SqliteParserStorage implements ParserStorage {
+    private db: Database.Database;
+    private maxVersions: number;
+
+    constructor(
+        databasePath: string = path.join(process.cwd(), 'tmp', 'parsers.db'),
+        options: ParserStorageOptions = {}
+    ) {
+        this.maxVersions = options.maxVersions ?? DEFAULT_MAX_PARSER_VERSIONS;
+        if (databasePath !== ':memory:') {
+            fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+        }
+        this.db = new Database(databasePath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('busy_timeout = 5000');
+        this.db.exec(SCHEMA);
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    async get(urlPattern: string): Promise<StoredParser | null> {
+        const row = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} FROM parsers p
+                 JOIN parser_versions v
+                   ON v.url_pattern = p.url_pattern AND v.version = p.current_version
+                 WHERE p.url_pattern = ?`
+            )
+            .get(urlPattern) as ParserRow | undefined;
+        return row ? toStoredParser(row) : null;
+    }
+
+    async set(
+        urlPattern: string,
+        parser: string,
+        metadata: ParserMetadata = { source: 'generated' },
+        kind: ParserKind = 'javascript'
+    ): Promise<StoredParser> {
+        try {
+            const createdAt = new Date();
+            const version = this.db.transaction(() => {
+                const current = this.db
+                    .prepare('SELECT current_version FROM parsers WHERE url_pattern = ?')
+                    .get(urlPattern) as { current_version: number } | undefined;
+                const next = current ? current.current_version + 1 : 1;
+
+                this.insertVersion({
+                    urlPattern,
+                    parser,
+                    kind,
+                    createdAt,
+                    version: next,
+                    metadata,
+                });
+                this.upsertParser(urlPattern, next, createdAt);
+                if (this.maxVersions > 0) {
+                    this.db
+                        .prepare(
+                            'DELETE FROM parser_versions WHERE url_pattern = ? AND version <= ?'
+                        )
+                        .run(urlPattern, next - this.maxVersions);
+                }
+                return next;
+            })();
+
+            const stored = await this.get(urlPattern);
+            return stored || { urlPattern, parser, kind, createdAt, version, metadata };
+        } catch (error) {
+            logger.error('Failed to save parser for pattern', {
+                urlPattern,
+                ...getErrorInfo(error),
+            });
+            throw new Error(
+                `Cannot save parser: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    async getVersions(urlPattern: string): Promise<StoredParser[]> {
+        const rows = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} FROM parser_versions v
+                 JOIN parsers p ON p.url_pattern = v.url_pattern
+                 WHERE v.url_pattern = ?
+                 ORDER BY v.version DESC`
+            )
+            .all(urlPattern) as ParserRow[];
+        return rows.map(toStoredParser);
+    }
+
+    async getVersion(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const row = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} FROM parser_versions v
+                 JOIN parsers p ON p.url_pattern = v.url_pattern
+                 WHERE v.url_pattern = ? AND v.version = ?`
+            )
+            .get(urlPattern, version) as ParserRow | undefined;
+        return row ? toStoredParser(row) : null;
+    }
+
+    async rollback(urlPattern: string, version: number): Promise<StoredParser | null> {
+        const target = await this.getVersion(urlPattern, version);
+        if (!target) {
+            return null;
+        }
+
+        return this.set(
+            urlPattern,
+            target.parser,
+            { ...target.metadata, source: 'rollback', restoredFrom: version },
+            target.kind
+        );
+    }
+
+    async has(urlPattern: string): Promise<boolean> {
+        return (
+            this.db.prepare('SELECT 1 FROM parsers WHERE url_pattern = ?').get(urlPattern) !==
+            undefined
+        );
+    }
+
+    // Most recently updated first; a limit of 0 returns every parser
+    async getAll(limit: number = 10): Promise<StoredParser[]> {
+        const rows = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} FROM parsers p
+                 JOIN parser_versions v
+                   ON v.url_pattern = p.url_pattern AND v.version = p.current_version
+                 ORDER BY p.updated_at DESC, p.url_pattern
+                 LIMIT ?`
+            )
+            .all(limit || -1) as ParserRow[];
+        return rows.map(toStoredParser);
+    }
+
+    // A range on the primary key, so only matching rows are read
+    async getByPrefix(prefix: string): Promise<StoredParser[]> {
+        const rows = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} FROM parsers p
+                 JOIN parser_versions v
+                   ON v.url_pattern = p.url_pattern AND v.version = p.current_version
+                 WHERE p.url_pattern >= ? AND p.url_pattern < ?
+                 ORDER BY p.url_pattern`
+            )
+            .all(prefix, `${prefix}\u{10FFFF}`) as ParserRow[];
+        return rows.map(toStoredParser);
+    }
+
+    async query(query: ParserQuery): Promise<ParserPage> {
+        const { domain, pattern, createdFrom, createdTo, status, model, search, cursor } = query;
+        const sort = query.sort || 'createdAt';
+        const limit = query.limit || DEFAULT_PARSER_PAGE_SIZE;
+        const sortExpression = SORT_EXPRESSIONS[sort];
+
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+        if (domain !== undefined) {
+            conditions.push('p.domain = ?');
+            params.push(domain);
+        }
+        if (pattern !== undefined) {
+            conditions.push('instr(p.url_pattern, ?) > 0');
+            params.push(pattern);
+        }
+        if (createdFrom) {
+            conditions.push('p.updated_at >= ?');
+            params.push(createdFrom.toISOString());
+        }
+        if (createdTo) {
+            conditions.push('p.updated_at <= ?');
+            params.push(createdTo.toISOString());
+        }
+        if (status !== undefined) {
+            conditions.push("json_extract(v.metadata, '$.source') = ?");
+            params.push(status);
+        }
+        if (model !== undefined) {
+            conditions.push("json_extract(v.metadata, '$.model') = ?");
+            params.push(model);
+        }
+        for (const term of getSearchTerms(search)) {
+            conditions.push("v.code LIKE ? ESCAPE '\\'");
+            params.push(`%${escapeLike(term)}%`);
+        }
+
+        const from = `FROM parsers p
+             JOIN parser_versions v
+               ON v.url_pattern = p.url_pattern AND v.version = p.current_version`;
+        const where = (clauses: string[]) =>
+            clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+
+        const { total } = this.db
+            .prepare(`SELECT COUNT(*) AS total ${from} ${where(conditions)}`)
+            .get(...params) as { total: number };
+
+        const pageConditions = [...conditions];
+        const pageParams = [...params];
+        if (cursor) {
+            const after = decodeParserCursor(cursor);
+            pageConditions.push(
+                `(${sortExpression} < ? OR (${sortExpression} = ? AND p.url_pattern < ?))`
+            );
+            pageParams.push(after.value, after.value, after.urlPattern);
+        }
+
+        const rows = this.db
+            .prepare(
+                `SELECT ${VERSION_COLUMNS} ${from} ${where(pageConditions)}
+                 ORDER BY ${sortExpression} DESC, p.url_pattern DESC
+                 LIMIT ?`
+            )
+            .all(...pageParams, limit + 1) as ParserRow[];
+
+        const parsers = rows.slice(0, limit).map(toStoredParser);
+        const last = parsers[parsers.length - 1];
+        return {
+            parsers,
+            total,
+            nextCursor:
+                rows.length > limit
+                    ? encodeParserCursor({
+                          value: getSortValue(last, sort),
+                          urlPattern: last.urlPattern,
+                      })
+                    : null,
+        };
+    }
+
+    async delete(urlPattern: string): Promise<boolean> {
+        return this.db.transaction(() => {
+            this.db.prepare('DELETE FROM parser_versions WHERE url_pattern = ?').run(urlPattern);
+            return (
+                this.db.prepare('DELETE FROM parsers WHERE url_pattern = ?').run(urlPattern)
+                    .changes > 0
+            );
+        })();
+    }
+
+    async size(): Promise<number> {
+        const row = this.db.prepare('SELECT COUNT(*) AS count FROM parsers').get() as {
+            count: number;
+        };
+        return row.count;
+    }
+
+    async recordUsage(urlPattern: string): Promise<void> {
+        this.db
+            .prepare(
+                `UPDATE parsers SET use_count = use_count + 1, last_used_at = ?
+                 WHERE url_pattern = ?`
+            )
+            .run(new Date().toISOString(), urlPattern);
+    }
+
+    async getUrlPatternRules(): Promise<UrlPatternRule[]> {
+        const rows = this.db
+            .prepare('SELECT rule FROM url_pattern_rules ORDER BY position')
+            .all() as Array<{ rule: string }>;
+        return rows.map(row => {
+            const rule: UrlPatternRule = JSON.parse(row.rule);
+            return {
+                ...rule,
+                createdAt: new Date(rule.createdAt),
+                updatedAt: new Date(rule.updatedAt),
+            };
+        });
+    }
+
+    async saveUrlPatternRules(rules: UrlPatternRule[]): Promise<void> {
+        try {
+            this.db.transaction(() => {
+                this.db.prepare('DELETE FROM url_pattern_rules').run();
+                const insert = this.db.prepare(
+                    'INSERT INTO url_pattern_rules (position, rule) VALUES (?, ?)'
+                );
+                rules.forEach((rule, position) => insert.run(position, JSON.stringify(rule)));
+            })();
+        } catch (error) {
+            logger.error('Failed to save URL pattern rules:', getErrorInfo(error));
+            throw new Error(
+                `Cannot save URL pattern rules: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+    }
+
+    /**
+     * Copies every parser of another storage, with its full version history and
+     * original dates, and its URL pattern rules if none are stored yet. Each
+     * pattern is imported in its own transaction; patterns already present are
+     * skipped, so an interrupted import can be run again.
+     */
+    async importFrom(source: ParserStorage): Promise<ParserImportSummary> {
+        const summary: ParserImportSummary = { imported: 0, versions: 0, skipped: 0, rules: 0 };
+
+        for (const parser of await source.getAll(0)) {
+            if (await this.has(parser.urlPattern)) {
+                summary.skipped++;
+                continue;
+            }
+
+            // Oldest first, so the last one becomes the current version
+            const versions = retainVersions(
+                (await source.getVersions(parser.urlPattern)).reverse(),
+                this.maxVersions
+            );
+            this.db.transaction(() => {
+                versions.forEach(version => this.insertVersion(version));
+                const latest = versions[versions.length - 1];
+                this.upsertParser(parser.urlPattern, latest.version, latest.createdAt);
+                this.db
+                    .prepare(
+                        `UPDATE parsers SET created_at = ?, use_count = ?, last_used_at = ?
+                         WHERE url_pattern = ?`
+                    )
+                    .run(
+                        versions[0].createdAt.toISOString(),
+                        parser.usage?.count ?? 0,
+                        parser.usage?.lastUsedAt?.toISOString() ?? null,
+                        parser.urlPattern
+                    );
+            })();
+
+            summary.imported++;
+            summary.versions += versions.length;
+        }
+
+        const rules = await source.getUrlPatternRules();
+        if (rules.length > 0 && (await this.getUrlPatternRules()).length === 0) {
+            await this.saveUrlPatternRules(rules);
+            summary.rules = rules.length;
+        }
+
+        logger.info('Imported parsers into SQLite storage', { ...summary });
+        return summary;
+    }
+
+    private insertVersion(parser: StoredParser): void {
+        this.db
+            .prepare(
+                `INSERT INTO parser_versions
+                   (url_pattern, version, kind, code, metadata, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+                parser.urlPattern,
+                parser.version,
+                parser.kind,
+                parser.parser,
+                parser.metadata ? JSON.stringify(parser.metadata) : null,
+                parser.createdAt.toISOString()
+            );
+    }
+
+    private upsertParser(urlPattern: string, version: number, updatedAt: Date): void {
+        const timestamp = updatedAt.toISOString();
+        this.db
+            .prepare(
+                `INSERT INTO parsers (url_pattern, domain, current_version, created_at, updated_at)
+                 VALUES (?, ?, ?, ?, ?)
+                 ON CONFLICT (url_pattern)
+                 DO UPDATE SET current_version = excluded.current_version,
+                               updated_at = excluded.updated_at`
+            )
+            .run(urlPattern, getPatternDomain(urlPattern), version, timestamp, timestamp);
+    }
+}
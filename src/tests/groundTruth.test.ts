@@ -4,25 +4,77 @@ import * as path from 'path';
 import express from 'express';
 import { createRoutes } from '../api/routes';
 import { ParserService } from '../services/parserService';
-import { DiskParserStorage } from '../storage/diskParserStorage';
-import { OpenAIService } from '../generator/openaiParserGenerator';
+import { UrlPatternRuleService } from '../services/urlPatternRuleService';
+import { InMemoryParserStorage } from '../storage/inMemoryParserStorage';
+import { LlmParserGenerator } from '../generator/llmParserGenerator';
+import { OpenAIClient } from '../generator/openaiClient';
+import { CASSETTE_MODES, CassetteLlmClient, CassetteMode } from '../generator/cassetteLlmClient';
 import { ParseResponse, TestConfig, TestResult } from './types';
+import { ApiError } from '../types/ApiError';
 import { logger } from '../utils/logger';
 import { Server } from 'http';
 
+// Recorded LLM responses; refresh them with LLM_CASSETTE_MODE=record and an OPENAI_API_KEY
+const CASSETTE_DIR = path.join(process.cwd(), 'src', 'tests', 'cassettes');
+
+function getCassetteMode(): CassetteMode {
+    const mode = process.env.LLM_CASSETTE_MODE || 'replay';
+    if (!CASSETTE_MODES.includes(mode as CassetteMode)) {
+        throw new Error(`LLM_CASSETTE_MODE must be one of ${CASSETTE_MODES.join(', ')}`);
+    }
+    return mode as CassetteMode;
+}
+
+// Replaying without recordings would only report every case as a generation error
+async function assertHasRecordings(): Promise<void> {
+    const files = await fs.promises.readdir(CASSETTE_DIR).catch(() => [] as string[]);
+    if (!files.some(file => file.endsWith('.json'))) {
+        throw new Error(
+            `No recorded LLM responses in ${CASSETTE_DIR}; record them with LLM_CASSETTE_MODE=record and an OPENAI_API_KEY`
+        );
+    }
+}
+
 class TestServer {
     private app: express.Application;
     private server: Server | null = null;
     private baseUrl: string = 'http://localhost:3001';
 
-    constructor(openaiApiKey: string) {
-        const storage = new DiskParserStorage();
-        const parserGenerator = new OpenAIService(openaiApiKey);
-        const parserService = new ParserService(parserGenerator, storage);
+    constructor(cassetteMode: CassetteMode, openaiApiKey?: string) {
+        // A fresh storage per run, so every case goes through (recorded) generation
+        const storage = new InMemoryParserStorage();
+        const client = new CassetteLlmClient({
+            mode: cassetteMode,
+            directory: CASSETTE_DIR,
+            client: openaiApiKey ? new OpenAIClient(openaiApiKey) : undefined,
+        });
+        const parserGenerator = new LlmParserGenerator(client, {
+            model: 'gpt-4',
+            temperature: 0.1,
+            maxTokens: 2000,
+        });
+        const urlPatternRules = new UrlPatternRuleService(storage);
+        const parserService = new ParserService(parserGenerator, storage, undefined, {
+            urlPatternRules,
+        });
 
         this.app = express();
         this.app.use(express.json({ limit: '50mb' }));
-        this.app.use('/api', createRoutes(parserService));
+        this.app.use('/api', createRoutes(parserService, urlPatternRules));
+        // As in the service, so a missing recording shows up as its message rather than an HTML page
+        this.app.use(
+            (
+                err: Error,
+                req: express.Request,
+                res: express.Response,
+                _next: express.NextFunction
+            ) => {
+                if (err instanceof ApiError) {
+                    return res.status(err.statusCode).json(err.payload);
+                }
+                res.status(500).json({ error: 'Internal server error', message: err.message });
+            }
+        );
     }
 
     async start(): Promise<void> {
@@ -55,12 +107,18 @@ describe('Ground Truth Tests', () => {
     const testDataDir = path.join(process.cwd(), 'src', 'tests', 'data');
 
     beforeAll(async () => {
+        const cassetteMode = getCassetteMode();
         const openaiApiKey = process.env.OPENAI_API_KEY;
-        if (!openaiApiKey) {
-            throw new Error('OPENAI_API_KEY environment variable is required');
+        if (cassetteMode !== 'replay' && !openaiApiKey) {
+            throw new Error(
+                `OPENAI_API_KEY environment variable is required in ${cassetteMode} mode`
+            );
+        }
+        if (cassetteMode === 'replay') {
+            await assertHasRecordings();
         }
 
-        testServer = new TestServer(openaiApiKey);
+        testServer = new TestServer(cassetteMode, openaiApiKey);
         await testServer.start();
     });
 
@@ -193,4 +251,14 @@ describe('Ground Truth Tests', () => {
         expect(result.actual).toBeDefined();
         expect(result.urlPattern).toBe(testConfig.pattern);
     }, 30000);
+
+    test('TeachersPayTeachers product page should parse correctly', async () => {
+        const testDir = path.join(testDataDir, 'teacherspayteachers');
+        const testConfig = await loadTestConfig(testDir);
+        const result = await executeTest(testConfig, testDir);
+
+        expect(result.error).toBeUndefined();
+        expect(result.actual).toBeDefined();
+        expect(result.urlPattern).toBe(testConfig.pattern);
+    }, 30000);
 });
@@ -0,0 +1,91 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteLlmClient, hashCompletionRequest } from '../../generator/cassetteLlmClient';
+import { ChatMessage, LlmClient, LlmCompletion, LlmCompletionOptions } from '../../types';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const OPTIONS: LlmCompletionOptions = { model: 'gpt-4', temperature: 0.1, maxTokens: 2000 };
+const MESSAGES: ChatMessage[] = [
+    { role: 'system', content: 'You are an expert at creating HTML parsers.' },
+    { role: 'user', content: 'Parse https://example.com/articles/1' },
+];
+
+class CountingClient implements LlmClient {
+    public readonly provider = 'openai';
+    public calls = 0;
+
+    async complete(): Promise<LlmCompletion> {
+        this.calls++;
+        return { content: `return { call: ${this.calls} };` };
+    }
+}
+
+describe('CassetteLlmClient', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should replay what was recorded without calling the wrapped client', async () => {
+        const recorder = new CassetteLlmClient({
+            mode: 'record',
+            directory,
+            client: new CountingClient(),
+        });
+        const recorded = await recorder.complete(MESSAGES, OPTIONS);
+
+        const key = hashCompletionRequest(MESSAGES, OPTIONS);
+        expect(fs.existsSync(path.join(directory, `${key}.json`))).toBe(true);
+
+        const player = new CassetteLlmClient({ mode: 'replay', directory });
+        expect(await player.complete(MESSAGES, OPTIONS)).toEqual(recorded);
+    });
+
+    test('should fail in replay mode when the prompt was never recorded', async () => {
+        const player = new CassetteLlmClient({ mode: 'replay', directory });
+
+        await expect(player.complete(MESSAGES, OPTIONS)).rejects.toThrow(
+            'No recorded LLM response'
+        );
+    });
+
+    test('should key recordings by prompt and completion options', () => {
+        const key = hashCompletionRequest(MESSAGES, OPTIONS);
+
+        expect(hashCompletionRequest([...MESSAGES], { ...OPTIONS })).toBe(key);
+        expect(hashCompletionRequest(MESSAGES, { ...OPTIONS, model: 'gpt-4o' })).not.toBe(key);
+        expect(hashCompletionRequest(MESSAGES.slice(1), OPTIONS)).not.toBe(key);
+    });
+
+    test('should call the wrapped client and save nothing in passthrough mode', async () => {
+        const client = new CountingClient();
+        const passthrough = new CassetteLlmClient({ mode: 'passthrough', directory, client });
+
+        await passthrough.complete(MESSAGES, OPTIONS);
+        await passthrough.complete(MESSAGES, OPTIONS);
+
+        expect(client.calls).toBe(2);
+        expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    test('should require a client outside replay mode', () => {
+        expect(() => new CassetteLlmClient({ mode: 'record', directory })).toThrow(
+            'requires an LLM client'
+        );
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withFileLock } from '../../utils/fileLock';
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('withFileLock', () => {
+    let lockDir: string;
+    let lockPath: string;
+
+    beforeEach(() => {
+        lockDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-'));
+        lockPath = path.join(lockDir, 'test.lock');
+    });
+
+    afterEach(() => {
+        fs.rmSync(lockDir, { recursive: true, force: true });
+    });
+
+    test('should leave a lock that another holder took over', async () => {
+        await withFileLock(lockPath, async () => {
+            fs.writeFileSync(lockPath, 'other holder\n');
+        });
+
+        expect(fs.readFileSync(lockPath, 'utf8')).toBe('other holder\n');
+    });
+
+    test('should not take over the lock of a holder that is still running', async () => {
+        const events: string[] = [];
+        const options = { staleMs: 100, retryDelayMs: 10 };
+        const run = (name: string): Promise<void> =>
+            withFileLock(
+                lockPath,
+                async () => {
+                    events.push(`${name} start`);
+                    await sleep(250);
+                    events.push(`${name} end`);
+                },
+                options
+            );
+
+        await Promise.all([run('a'), sleep(20).then(() => run('b'))]);
+
+        expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import * as cheerio from 'cheerio';
+import { HeuristicParserGenerator } from '../../generator/heuristicParserGenerator';
+import { FallbackParserGenerator } from '../../generator/fallbackParserGenerator';
+import { ParserService } from '../../services/parserService';
+import { InMemoryParserStorage } from '../../storage/inMemoryParserStorage';
+import { ParserGenerator } from '../../types';
+import { findContentBlock } from '../../utils/htmlExtractor';
+import { parseSelectorSpec } from '../../utils/selectorSpec';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const URL = 'https://example.com/articles/12345';
+const PARAGRAPH = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit, sed do eiusmod tempor.';
+
+const HTML = `<html>
+<head>
+    <title>Ignored | Example</title>
+    <meta property="og:title" content="A Heuristic Article">
+    <meta name="author" content="Jane Doe">
+</head>
+<body>
+    <div class="sidebar"><ul><li><a href="/a">A short link list item here</a></li></ul></div>
+    <div class="wrapper">
+        <div class="story">
+            <p>${PARAGRAPH}</p>
+            <p>${PARAGRAPH}</p>
+            <p>${PARAGRAPH}</p>
+        </div>
+    </div>
+</body>
+</html>`;
+
+describe('findContentBlock', () => {
+    test('should pick the densest text block when no content selector matches', () => {
+        const $ = cheerio.load(HTML);
+        expect(findContentBlock($).attr('class')).toBe('story');
+    });
+
+    test('should skip content selectors that match an almost empty element', () => {
+        const $ = cheerio.load(HTML.replace('<body>', '<body><main>Menu</main>'));
+        expect(findContentBlock($).attr('class')).toBe('story');
+    });
+});
+
+describe('HeuristicParserGenerator', () => {
+    test('should generate a working JavaScript parser from meta tags and the content block', async () => {
+        const service = new ParserService(
+            new HeuristicParserGenerator(),
+            new InMemoryParserStorage()
+        );
+
+        const response = await service.parse({ url: URL, html: HTML });
+
+        expect(response.kind).toBe('javascript');
+        expect(response.result).toEqual({
+            title: 'A Heuristic Article',
+            author: 'Jane Doe',
+            content: [PARAGRAPH, PARAGRAPH, PARAGRAPH].join(' '),
+        });
+    });
+
+    test('should generate a selector spec when asked for one', async () => {
+        const { parser, model } = await new HeuristicParserGenerator().generateParser(URL, HTML, {
+            kind: 'selector-spec',
+        });
+        expect(model).toBe('heuristic');
+
+        const spec = parseSelectorSpec(parser);
+        expect(spec.fields.title).toMatchObject({
+            selector: 'meta[property="og:title"]',
+            attribute: 'content',
+        });
+        expect(spec.fields.content.selector).toBe('div.story');
+    });
+
+    test('should only emit fields the output schema declares', async () => {
+        const { parser } = await new HeuristicParserGenerator().generateParser(URL, HTML, {
+            kind: 'selector-spec',
+            schema: { type: 'object', properties: { title: { type: 'string' } } },
+        });
+
+        expect(Object.keys(parseSelectorSpec(parser).fields)).toEqual(['title']);
+    });
+});
+
+describe('FallbackParserGenerator', () => {
+    test('should use the fallback generator when the primary one fails', async () => {
+        const failing: ParserGenerator = {
+            generateParser: async () => {
+                throw new Error('Rate limited');
+            },
+            getStats: () => ({ model: 'gpt-4' }),
+        };
+        const generator = new FallbackParserGenerator(failing, new HeuristicParserGenerator());
+
+        const { parser } = await generator.generateParser(URL, HTML, { kind: 'selector-spec' });
+
+        expect(parseSelectorSpec(parser).fields.author).toBeDefined();
+        expect(generator.getStats()).toEqual({ model: 'gpt-4', fallbackCount: 1 });
+    });
+});
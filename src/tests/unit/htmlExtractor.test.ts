@@ -1,5 +1,10 @@
 import { describe, test, expect, jest } from '@jest/globals';
-import { generateUrlPattern } from '../../utils/htmlExtractor';
+import {
+    explainUrlPattern,
+    generateUrlPattern,
+    getFallbackPatterns,
+} from '../../utils/htmlExtractor';
+import { loadQueryParamConfig } from '../../utils/urlQueryPattern';
 
 jest.mock('../../utils/logger', () => ({
     logger: {
@@ -228,4 +233,136 @@ describe('generateUrlPattern', () => {
             expect(result).toBe('example.com/users/{uuid}');
         });
     });
+
+    describe('Multilingual segments', () => {
+        test('should keep slugs of words from the language of the domain', () => {
+            expect(generateUrlPattern('https://www.example.fr/actualites/politique-economie')).toBe(
+                'www.example.fr/actualites/politique-economie'
+            );
+        });
+
+        test('should keep percent-encoded slugs of real words', () => {
+            expect(generateUrlPattern('https://de.wikipedia.org/wiki/Stra%C3%9Fe')).toBe(
+                'de.wikipedia.org/wiki/Stra%C3%9Fe'
+            );
+            expect(generateUrlPattern('https://example.pt/not%C3%ADcias/s%C3%A3o-paulo')).toBe(
+                'example.pt/not%C3%ADcias/s%C3%A3o-paulo'
+            );
+        });
+
+        test('should keep a locale path prefix and use its language', () => {
+            expect(generateUrlPattern('https://www.canada.ca/fr/services/emploi')).toBe(
+                'www.canada.ca/fr/services/emploi'
+            );
+        });
+
+        test('should still template unknown words and slugs without a detected language', () => {
+            expect(generateUrlPattern('https://example.fr/produit/%C3%A9t%C3%A9xq')).toBe(
+                'example.fr/produit/{id}'
+            );
+            expect(generateUrlPattern('https://example.com/actualit%C3%A9s')).toBe(
+                'example.com/{id}'
+            );
+        });
+    });
+
+    describe('Query parameters', () => {
+        test('should template id parameters', () => {
+            expect(generateUrlPattern('https://news.ycombinator.com/item?id=1')).toBe(
+                'news.ycombinator.com/item?id={id}'
+            );
+        });
+
+        test('should keep page type parameters literally, sorted by name', () => {
+            const result = generateUrlPattern('https://example.com/article?title=Main&action=View');
+            expect(result).toBe('example.com/article?action=view&title={id}');
+        });
+
+        test('should drop tracking and pagination parameters', () => {
+            const result = generateUrlPattern(
+                'https://example.com/item?utm_source=x&utm_medium=y&fbclid=z&id=2&page=3'
+            );
+            expect(result).toBe('example.com/item?id={id}');
+        });
+
+        test('should drop pagination, filters and unknown parameters', () => {
+            expect(generateUrlPattern('https://news.ycombinator.com/item?id=2&p=2')).toBe(
+                'news.ycombinator.com/item?id={id}'
+            );
+            expect(
+                generateUrlPattern('https://shop.com/search?q=shoes&color=red&material=leather')
+            ).toBe('shop.com/search');
+            expect(generateUrlPattern('https://shop.com/list?category_id=4&filter[size]=9')).toBe(
+                'shop.com/list?category_id={id}'
+            );
+        });
+
+        test('should template unknown parameters when configured to keep them', () => {
+            const queryParams = loadQueryParamConfig(undefined, undefined, undefined, true);
+            expect(
+                generateUrlPattern('https://shop.com/search?q=shoes&material=leather', {
+                    queryParams,
+                })
+            ).toBe('shop.com/search?material={id}');
+        });
+
+        test('should read extra parameter names from configuration', () => {
+            const queryParams = loadQueryParamConfig('section', 'sessionid');
+            const result = generateUrlPattern(
+                'https://example.com/view?section=sports&sessionid=abc',
+                { queryParams }
+            );
+            expect(result).toBe('example.com/view?section=sports');
+        });
+    });
+});
+
+describe('getFallbackPatterns', () => {
+    test('should drop trailing path segments down to the domain', () => {
+        expect(getFallbackPatterns('example.com/blog/{id}/comments')).toEqual([
+            'example.com/blog/{id}',
+            'example.com/blog',
+            'example.com',
+        ]);
+    });
+
+    test('should drop the query first', () => {
+        expect(getFallbackPatterns('news.ycombinator.com/item?id={id}')).toEqual([
+            'news.ycombinator.com/item',
+            'news.ycombinator.com',
+        ]);
+        expect(getFallbackPatterns('example.com')).toEqual([]);
+    });
+});
+
+describe('explainUrlPattern', () => {
+    test('should report the rule that classified each segment', () => {
+        const explanation = explainUrlPattern(
+            'https://example.com/settings/my-awesome-post/abc123def456/Xk3pQ9zT?id=5&utm_source=x'
+        );
+
+        expect(explanation.urlPattern).toBe(
+            'example.com/settings/my-awesome-post/{uuid}/{id}?id={id}'
+        );
+        expect(explanation.rule).toBeNull();
+        expect(explanation.segments.map(({ segment, rule }) => [segment, rule])).toEqual([
+            ['settings', 'common-path-word'],
+            ['my-awesome-post', 'kebab-case'],
+            ['abc123def456', 'uuid'],
+            ['Xk3pQ9zT', 'alphanumeric'],
+        ]);
+        expect(explanation.segments[1].words).toEqual([
+            { word: 'my', dictionaryWord: true, language: 'en' },
+            { word: 'awesome', dictionaryWord: true, language: 'en' },
+            { word: 'post', dictionaryWord: true, language: 'en' },
+        ]);
+        expect(explanation.queryParams).toEqual([
+            { name: 'id', class: 'id' },
+            { name: 'utm_source', class: 'noise' },
+        ]);
+    });
+
+    test('should throw on an invalid URL', () => {
+        expect(() => explainUrlPattern('https://exa mple.com/a')).toThrow();
+    });
 });
@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import * as cheerio from 'cheerio';
+import { sampleHtmlStructure } from '../../utils/htmlSampler';
+import { preprocessHtmlForOpenAI } from '../../utils/htmlExtractor';
+import { countTokens } from '../../utils/tokenCounter';
+
+const ARTICLE_TEXT =
+    'The article body is long enough to count as the main content of the page. '.repeat(5);
+
+const listPage = (items: number) => `<html>
+<head>
+    <title>Products</title>
+    <meta name="viewport" content="width=device-width">
+    <meta property="og:title" content="All Products">
+</head>
+<body>
+    <ul id="products" class="product-list css-8f3k2x9">
+        ${Array.from({ length: items }, (_, i) => `<li class="product"><span class="name">Product ${i}</span></li>`).join('')}
+    </ul>
+    <article class="post"><p>${ARTICLE_TEXT}</p></article>
+</body>
+</html>`;
+
+describe('sampleHtmlStructure', () => {
+    test('should collapse repeated siblings into one representative with a count', () => {
+        const sample = sampleHtmlStructure(cheerio.load(listPage(50)));
+
+        expect(sample.match(/<li class="product">/g)).toHaveLength(1);
+        expect(sample).toContain('<!-- 49 more similar <li> -->');
+    });
+
+    test('should keep distinctive ids and classes and drop generated ones', () => {
+        const sample = sampleHtmlStructure(cheerio.load(listPage(3)));
+
+        expect(sample).toContain('<ul id="products" class="product-list">');
+        expect(sample).not.toContain('css-8f3k2x9');
+    });
+
+    test('should keep content meta tags and skip technical ones', () => {
+        const sample = sampleHtmlStructure(cheerio.load(listPage(3)));
+
+        expect(sample).toContain('<meta property="og:title" content="All Products">');
+        expect(sample).not.toContain('viewport');
+    });
+
+    test('should reduce detail until the sample fits the token budget', () => {
+        const $ = cheerio.load(listPage(3));
+        const full = sampleHtmlStructure($, { tokenBudget: 10000 });
+        const budgeted = sampleHtmlStructure($, { tokenBudget: 60 });
+
+        expect(full).toContain(ARTICLE_TEXT.substring(0, 50));
+        expect(countTokens(budgeted, 'gpt-4')).toBeLessThanOrEqual(60);
+        expect(budgeted).toContain('<ul id="products"');
+    });
+
+    test('should cap the nesting depth even along the path to the main content', () => {
+        const $ = cheerio.load(
+            `<body>${'<div>'.repeat(500)}<p>Deep</p>${'</div>'.repeat(500)}</body>`
+        );
+
+        const sample = sampleHtmlStructure($, { tokenBudget: 100000 }, $('p').get(0));
+
+        expect(sample.match(/<div>/g)?.length).toBeLessThan(500);
+        expect(sample).toMatch(/<!-- \d+ elements -->/);
+    });
+});
+
+describe('preprocessHtmlForOpenAI', () => {
+    test('should describe the body content rather than the head meta tags', async () => {
+        const { structure } = await preprocessHtmlForOpenAI(listPage(3));
+
+        expect(structure.title).toBe('Products');
+        expect(structure.mainContent).toContain('The article body');
+    });
+});
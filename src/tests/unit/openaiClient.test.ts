@@ -0,0 +1,60 @@
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIClient } from '../../generator/openaiClient';
+
+describe('OpenAIClient', () => {
+    const requests: Array<Record<string, unknown>> = [];
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                requests.push(JSON.parse(body));
+                res.setHeader('Content-Type', 'application/json');
+                res.end(
+                    JSON.stringify({
+                        id: 'chatcmpl-1',
+                        object: 'chat.completion',
+                        created: 0,
+                        model: 'local',
+                        choices: [
+                            {
+                                index: 0,
+                                message: { role: 'assistant', content: 'return {};' },
+                                finish_reason: 'stop',
+                            },
+                        ],
+                        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+                    })
+                );
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    test('should send max_tokens to an OpenAI-compatible server', async () => {
+        const client = new OpenAIClient(undefined, baseUrl, 'openai-compatible');
+
+        const completion = await client.complete([{ role: 'user', content: 'Write a parser' }], {
+            model: 'local',
+            temperature: 0,
+            maxTokens: 256,
+        });
+
+        expect(completion).toEqual({
+            content: 'return {};',
+            usage: { inputTokens: 12, outputTokens: 3 },
+        });
+        expect(requests[0]).toMatchObject({ model: 'local', max_tokens: 256 });
+        expect(requests[0]).not.toHaveProperty('max_completion_tokens');
+    });
+});
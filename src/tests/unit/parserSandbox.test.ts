@@ -0,0 +1,92 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+    ParserSandbox,
+    PARSER_EXECUTION_FAILED,
+    PARSER_SANDBOX_VIOLATION,
+    PARSER_TIMEOUT,
+} from '../../sandbox/parserSandbox';
+import { ApiError } from '../../types/ApiError';
+
+const HTML = '<html><head><title>Hello</title></head><body><h1>Heading</h1></body></html>';
+
+async function executeAndCatch(sandbox: ParserSandbox, code: string): Promise<ApiError> {
+    try {
+        await sandbox.execute(code, HTML);
+    } catch (error) {
+        return error as ApiError;
+    }
+    throw new Error('Expected parser execution to fail');
+}
+
+describe('ParserSandbox', () => {
+    const sandbox = new ParserSandbox({ timeoutMs: 2000 });
+
+    test('should run parser code against the cheerio instance', async () => {
+        const result = await sandbox.execute(
+            "return { title: $('title').text(), heading: $('h1').text() };",
+            HTML
+        );
+        expect(result).toEqual({ title: 'Hello', heading: 'Heading' });
+    });
+
+    test('should reject access to process as a sandbox violation', async () => {
+        const error = await executeAndCatch(sandbox, 'return process.env;');
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.statusCode).toBe(403);
+        expect(error.payload).toMatchObject({ code: PARSER_SANDBOX_VIOLATION });
+    });
+
+    test('should reject access to require as a sandbox violation', async () => {
+        const error = await executeAndCatch(sandbox, "return require('fs');");
+        expect(error.payload).toMatchObject({ code: PARSER_SANDBOX_VIOLATION });
+    });
+
+    test('should reject code generation from strings', async () => {
+        const error = await executeAndCatch(sandbox, "return eval('1 + 1');");
+        expect(error.payload).toMatchObject({ code: PARSER_SANDBOX_VIOLATION });
+    });
+
+    test('should not let parser code reach the worker through the realm of $', async () => {
+        const escapes = [
+            "return $.constructor.constructor('return process')().getBuiltinModule('fs').readFileSync('/etc/hostname', 'utf8');",
+            "return $('h1').constructor.constructor('return globalThis')();",
+            "return Object.getPrototypeOf(async function () {}).constructor.call.constructor('return process')();",
+            "const f = $.constructor; delete Object.getPrototypeOf(f).constructor; return Object.getPrototypeOf(f).constructor('return process')();",
+        ];
+
+        for (const code of escapes) {
+            const error = await executeAndCatch(sandbox, code);
+            expect(error.payload).toMatchObject({ code: PARSER_SANDBOX_VIOLATION });
+        }
+    });
+
+    test('should not count worker startup against the time limit', async () => {
+        const result = await new ParserSandbox({ timeoutMs: 50 }).execute(
+            "return { heading: $('h1').text() };",
+            HTML
+        );
+        expect(result).toEqual({ heading: 'Heading' });
+    });
+
+    test('should time out infinite loops', async () => {
+        const error = await executeAndCatch(
+            new ParserSandbox({ timeoutMs: 500 }),
+            'while (true) {}'
+        );
+        expect(error.statusCode).toBe(504);
+        expect(error.payload).toMatchObject({ code: PARSER_TIMEOUT });
+    });
+
+    test('should report errors thrown by the parser', async () => {
+        const error = await executeAndCatch(sandbox, "throw new Error('Missing title');");
+        expect(error.statusCode).toBe(500);
+        expect(error.payload).toMatchObject({ code: PARSER_EXECUTION_FAILED });
+        expect(error.message).toContain('Missing title');
+    });
+
+    test('should report syntax errors', async () => {
+        const error = await executeAndCatch(sandbox, 'return {');
+        expect(error.payload).toMatchObject({ code: PARSER_EXECUTION_FAILED });
+        expect(error.message).toContain('SyntaxError');
+    });
+});
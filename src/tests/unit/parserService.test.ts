@@ -0,0 +1,621 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { getParserKey, ParserService } from '../../services/parserService';
+import { UrlPatternRuleService } from '../../services/urlPatternRuleService';
+import { InMemoryParserStorage } from '../../storage/inMemoryParserStorage';
+import { HtmlSample, ParserFeedback, ParserGenerationOptions, ParserGenerator } from '../../types';
+import { ApiError } from '../../types/ApiError';
+import * as domFingerprint from '../../utils/domFingerprint';
+import { assertValidOutputSchema, validateAgainstSchema } from '../../utils/outputSchema';
+import { DEFAULT_URL_CANONICALIZATION } from '../../utils/urlCanonicalizer';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const URL = 'https://example.com/articles/123';
+const HTML = '<html><body><h1>Article Title</h1><p>Article body</p></body></html>';
+
+class ScriptedGenerator implements ParserGenerator {
+    public feedbacks: Array<ParserFeedback | undefined> = [];
+    public kinds: Array<string | undefined> = [];
+    public samples: Array<HtmlSample[] | undefined> = [];
+    public temperatures: Array<number | undefined> = [];
+    private parsers: string[];
+
+    constructor(parsers: string[]) {
+        this.parsers = parsers;
+    }
+
+    async generateParser(_url: string, _htmlText: string, options: ParserGenerationOptions = {}) {
+        this.feedbacks.push(options.feedback);
+        this.kinds.push(options.kind);
+        this.samples.push(options.samples);
+        this.temperatures.push(options.temperature);
+        const parser = this.parsers.shift();
+        if (!parser) {
+            throw new Error('No more scripted parsers');
+        }
+        return { parser, model: 'scripted' };
+    }
+
+    getStats() {
+        return {};
+    }
+}
+
+describe('ParserService', () => {
+    describe('Parser validation before persisting', () => {
+        test('should store a parser that passes validation', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.getParser({ url: URL, html: HTML });
+
+            expect(response.cached).toBe(false);
+            expect(await storage.has(response.parserKey)).toBe(true);
+            expect(generator.feedbacks).toEqual([undefined]);
+        });
+
+        test('should record the model that wrote the parser and list it', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.getParser({ url: URL, html: HTML });
+            const listing = await service.listParsers({ model: 'scripted' });
+
+            expect(listing.total).toBe(1);
+            expect(listing.parsers[0]).toMatchObject({
+                urlPattern: response.parserKey,
+                status: 'generated',
+                model: 'scripted',
+                version: 1,
+            });
+            expect(listing.parsers[0]).not.toHaveProperty('parser');
+        });
+
+        test('should send failures back to the generator for repair', async () => {
+            const generator = new ScriptedGenerator([
+                "throw new Error('Selector not found');",
+                "return { title: $('.missing').text() };",
+                "return { title: $('h1').text() };",
+            ]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.getParser({ url: URL, html: HTML });
+
+            expect(response.parser).toBe("return { title: $('h1').text() };");
+            expect(generator.feedbacks[1]?.error).toContain('Selector not found');
+            expect(generator.feedbacks[2]?.error).toBe('Parser returned an empty result');
+            expect(generator.feedbacks[2]?.output).toEqual({ title: '' });
+        });
+
+        test('should not persist a parser that keeps failing', async () => {
+            const generator = new ScriptedGenerator(['return {', 'return {};']);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage, undefined, {
+                maxRepairAttempts: 1,
+            });
+
+            await expect(service.getParser({ url: URL, html: HTML })).rejects.toBeInstanceOf(
+                ApiError
+            );
+            expect(await storage.size()).toBe(0);
+        });
+    });
+
+    describe('Self-healing cached parsers', () => {
+        test('should regenerate a cached parser that throws', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles/{id}', "throw new Error('Template changed');");
+            const service = new ParserService(generator, storage);
+
+            const response = await service.parse({ url: URL, html: HTML });
+
+            expect(response.healed).toBe(true);
+            expect(response.result).toEqual({ title: 'Article Title' });
+            expect(generator.feedbacks[0]?.previousParser).toContain('Template changed');
+            expect((await storage.get('example.com/articles/{id}'))?.parser).toBe(
+                "return { title: $('h1').text() };"
+            );
+        });
+
+        test('should regenerate a cached parser whose output coverage is too low', async () => {
+            const generator = new ScriptedGenerator([
+                "return { title: $('h1').text(), body: $('p').text() };",
+            ]);
+            const storage = new InMemoryParserStorage();
+            await storage.set(
+                'example.com/articles/{id}',
+                "return { title: $('.old-title').text(), body: $('.old-body').text() };"
+            );
+            const service = new ParserService(generator, storage);
+
+            const response = await service.parse({ url: URL, html: HTML });
+
+            expect(response.healed).toBe(true);
+            expect(response.result).toEqual({ title: 'Article Title', body: 'Article body' });
+        });
+
+        test('should keep the cached parser when regeneration fails', async () => {
+            const generator = new ScriptedGenerator([]);
+            const storage = new InMemoryParserStorage();
+            const cachedParser = "return { title: $('h1').text(), author: $('.author').text() };";
+            await storage.set('example.com/articles/{id}', cachedParser);
+            const service = new ParserService(generator, storage, undefined, {
+                minResultCoverage: 0.8,
+            });
+
+            const response = await service.parse({ url: URL, html: HTML });
+
+            expect(response.healed).toBeUndefined();
+            expect(response.result).toEqual({ title: 'Article Title', author: '' });
+            expect((await storage.get('example.com/articles/{id}'))?.parser).toBe(cachedParser);
+        });
+
+        test('should not validate a healed parser against pages of the old markup', async () => {
+            const generator = new ScriptedGenerator([
+                "return { title: $('.old-title').text() };",
+                "return { title: $('.new-title').text() };",
+            ]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage, undefined, {
+                fingerprintTemplates: false,
+            });
+
+            await service.parse({
+                url: URL,
+                html: '<html><body><h1 class="old-title">Old</h1></body></html>',
+            });
+            const healed = await service.parse({
+                url: 'https://example.com/articles/456',
+                html: '<html><body><h1 class="new-title">New</h1></body></html>',
+            });
+
+            expect(healed.healed).toBe(true);
+            expect(healed.result).toEqual({ title: 'New' });
+            expect(generator.samples[1]).toEqual([]);
+        });
+
+        test('should not regenerate the same parser again during the cooldown', async () => {
+            const generator = new ScriptedGenerator([]);
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles/{id}', "throw new Error('Template changed');");
+            const service = new ParserService(generator, storage);
+
+            await expect(service.parse({ url: URL, html: HTML })).rejects.toMatchObject({
+                payload: { code: 'PARSER_HEAL_FAILED' },
+            });
+            await expect(service.parse({ url: URL, html: HTML })).rejects.toMatchObject({
+                payload: { code: 'PARSER_EXECUTION_FAILED' },
+            });
+            expect(generator.feedbacks.length).toBe(1);
+        });
+
+        test('should share one regeneration between concurrent requests', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles/{id}', "throw new Error('Template changed');");
+            const service = new ParserService(generator, storage);
+
+            const responses = await Promise.all([
+                service.parse({ url: URL, html: HTML }),
+                service.parse({ url: URL, html: HTML }),
+            ]);
+
+            expect(responses.map(r => r.result)).toEqual([
+                { title: 'Article Title' },
+                { title: 'Article Title' },
+            ]);
+            expect(generator.feedbacks.length).toBe(1);
+        });
+
+        test('should pass on a refusal to regenerate instead of a heal failure', async () => {
+            const refusal = new ApiError(402, { error: 'Daily spend cap reached' });
+            const generator: ParserGenerator = {
+                generateParser: async () => {
+                    throw refusal;
+                },
+                getStats: () => ({}),
+            };
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles/{id}', "throw new Error('Template changed');");
+            const service = new ParserService(generator, storage);
+
+            await expect(service.parse({ url: URL, html: HTML })).rejects.toBe(refusal);
+        });
+    });
+
+    describe('Selector spec parsers', () => {
+        test('should generate, store and run a selector spec parser', async () => {
+            const spec = JSON.stringify({
+                fields: { title: { selector: 'h1' }, body: { selector: 'p', multiple: true } },
+            });
+            const generator = new ScriptedGenerator([spec]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.parse(
+                { url: URL, html: HTML },
+                { kind: 'selector-spec' }
+            );
+
+            expect(generator.kinds).toEqual(['selector-spec']);
+            expect(response.kind).toBe('selector-spec');
+            expect(response.result).toEqual({ title: 'Article Title', body: ['Article body'] });
+            expect((await storage.get(response.parserKey))?.kind).toBe('selector-spec');
+        });
+
+        test('should send invalid specs back for repair', async () => {
+            const generator = new ScriptedGenerator([
+                '{"fields": {"title": {"selector": "h1", "transforms": ["reverse"]}}}',
+                '{"fields": {"title": {"selector": "h1"}}}',
+            ]);
+            const service = new ParserService(generator, new InMemoryParserStorage(), undefined, {
+                defaultParserKind: 'selector-spec',
+            });
+
+            const response = await service.parse({ url: URL, html: HTML });
+
+            expect(generator.feedbacks[1]?.error).toContain('invalid "transforms"');
+            expect(response.result).toEqual({ title: 'Article Title' });
+        });
+    });
+
+    describe('Output schemas', () => {
+        const schema = {
+            type: 'object',
+            properties: { title: { type: 'string', minLength: 1 } },
+            required: ['title'],
+        };
+
+        test('should key parsers by schema so different schemas do not collide', async () => {
+            const generator = new ScriptedGenerator([
+                "return { heading: $('h1').text() };",
+                "return { title: $('h1').text() };",
+            ]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const plain = await service.parse({ url: URL, html: HTML });
+            const withSchema = await service.parse({ url: URL, html: HTML }, { schema });
+
+            expect(plain.result).toEqual({ heading: 'Article Title' });
+            expect(withSchema.result).toEqual({ title: 'Article Title' });
+            expect(withSchema.urlPattern).toBe(plain.urlPattern);
+            expect(withSchema.schemaHash).toBeDefined();
+            expect(await storage.size()).toBe(2);
+            expect(withSchema.parserKey).toBe(
+                getParserKey(plain.urlPattern, schema, withSchema.templateId)
+            );
+            expect(await storage.has(withSchema.parserKey)).toBe(true);
+        });
+
+        test('should treat equivalent schemas with different key order as the same', () => {
+            const reordered = {
+                required: ['title'],
+                properties: { title: { minLength: 1, type: 'string' } },
+                type: 'object',
+            };
+            expect(getParserKey('example.com', reordered)).toBe(
+                getParserKey('example.com', schema)
+            );
+        });
+
+        test('should accept different schemas that share an $id', () => {
+            const first = { ...schema, $id: 'https://example.com/article.json' };
+            const second = {
+                $id: 'https://example.com/article.json',
+                type: 'object',
+                required: ['body'],
+            };
+
+            expect(() => assertValidOutputSchema(first)).not.toThrow();
+            expect(() => assertValidOutputSchema(second)).not.toThrow();
+            expect(validateAgainstSchema({ title: 'Title' }, first)).toEqual([]);
+            expect(validateAgainstSchema({ title: 'Title' }, second)).toMatchObject([
+                { keyword: 'required' },
+            ]);
+        });
+
+        test('should send schema mismatches back to the generator for repair', async () => {
+            const generator = new ScriptedGenerator([
+                "return { heading: $('h1').text() };",
+                "return { title: $('h1').text() };",
+            ]);
+            const service = new ParserService(generator, new InMemoryParserStorage());
+
+            const response = await service.parse({ url: URL, html: HTML }, { schema });
+
+            expect(generator.feedbacks[1]?.error).toContain("must have required property 'title'");
+            expect(response.result).toEqual({ title: 'Article Title' });
+        });
+
+        test('should return structured validation errors for mismatching results', async () => {
+            const generator = new ScriptedGenerator([]);
+            const storage = new InMemoryParserStorage();
+            await storage.set(
+                getParserKey('example.com/articles/{id}', schema),
+                "return { title: '', body: $('p').text() };"
+            );
+            const service = new ParserService(generator, storage);
+
+            const error = await service
+                .parse({ url: URL, html: HTML }, { schema })
+                .catch((e: ApiError) => e);
+
+            expect(error).toBeInstanceOf(ApiError);
+            expect((error as ApiError).statusCode).toBe(422);
+            expect((error as ApiError).payload).toMatchObject({
+                code: 'SCHEMA_VALIDATION_FAILED',
+                validationErrors: [{ path: '/title', keyword: 'minLength' }],
+            });
+        });
+    });
+
+    describe('Multiple samples', () => {
+        const OTHER_URL = 'https://example.com/articles/456';
+        const OTHER_HTML =
+            '<html><body><div class="headline">Other Title</div><p>Other body</p></body></html>';
+
+        test('should validate new parsers against every sample sent with the request', async () => {
+            const generator = new ScriptedGenerator([
+                "return { title: $('h1').text() || null };",
+                "return { title: $('h1, .headline').first().text() };",
+            ]);
+            const service = new ParserService(generator, new InMemoryParserStorage());
+
+            const response = await service.parse({
+                url: URL,
+                html: HTML,
+                samples: [{ url: OTHER_URL, html: OTHER_HTML }],
+            });
+
+            expect(generator.samples[0]).toEqual([{ url: OTHER_URL, html: OTHER_HTML }]);
+            expect(generator.feedbacks[1]?.error).toContain(`On sample ${OTHER_URL}`);
+            expect(response.result).toEqual({ title: 'Article Title' });
+        });
+
+        test('should use recent traffic for the same page template as samples', async () => {
+            const generator = new ScriptedGenerator([
+                "return { body: $('p').text() };",
+                "return { body: $('p').text() };",
+            ]);
+            const service = new ParserService(generator, new InMemoryParserStorage());
+            const similarHtml = HTML.replace('Article Title', 'Other Title');
+
+            await service.parse({ url: OTHER_URL, html: similarHtml });
+            await service.parse({ url: URL, html: HTML }, { no_cache: true });
+
+            expect(generator.samples).toEqual([[], [{ url: OTHER_URL, html: similarHtml }]]);
+        });
+
+        test('should reject samples from a different URL pattern', async () => {
+            const service = new ParserService(
+                new ScriptedGenerator([]),
+                new InMemoryParserStorage()
+            );
+
+            const error = await service
+                .parse({
+                    url: URL,
+                    html: HTML,
+                    samples: [{ url: 'https://example.com/about', html: HTML }],
+                })
+                .catch((e: ApiError) => e);
+
+            expect((error as ApiError).statusCode).toBe(400);
+        });
+    });
+
+    describe('Candidate selection', () => {
+        const PAGE =
+            '<html><body><div class="cookie-banner">We use cookies to improve your experience</div>' +
+            '<article><h1>Article Title</h1><p>The full article body with enough words to compare.</p></article></body></html>';
+
+        test('should store the best scoring valid candidate with every score', async () => {
+            const generator = new ScriptedGenerator([
+                "return { title: $('h1').text(), body: $('.cookie-banner').text() };",
+                "return { title: $('h1').text(), body: $('article p').text() };",
+                'return {',
+            ]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.getParser({ url: URL, html: PAGE }, { candidates: 3 });
+
+            expect(response.parser).toContain('article p');
+            expect(generator.temperatures).toEqual([undefined, 0.5, 0.9]);
+
+            const metadata = (await storage.get(response.parserKey))?.metadata;
+            expect(metadata?.selectedCandidate).toBe(1);
+            expect(metadata?.candidates).toHaveLength(3);
+            expect(metadata?.candidates?.[2]).toMatchObject({ temperature: 0.9, valid: false });
+            const [bannerScore, articleScore] = [0, 1].map(
+                index => metadata?.candidates?.[index].score
+            );
+            expect(articleScore?.total).toBeGreaterThan(bannerScore?.total ?? 1);
+            expect(bannerScore?.boilerplateFree).toBeLessThan(1);
+        });
+
+        test('should not score or record candidates for a single parser', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const response = await service.getParser({ url: URL, html: HTML });
+
+            expect((await storage.get(response.parserKey))?.metadata?.candidates).toBeUndefined();
+        });
+    });
+
+    describe('Page templates', () => {
+        const GALLERY_HTML =
+            '<html><body><div class="gallery"><figure class="photo"><img src="a.jpg">' +
+            '<figcaption>Caption</figcaption></figure></div></body></html>';
+
+        test('should generate a separate parser for a new template under the same pattern', async () => {
+            const generator = new ScriptedGenerator([
+                "return { title: $('h1').text() };",
+                "return { caption: $('figcaption').text() };",
+            ]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+
+            const article = await service.parse({ url: URL, html: HTML });
+            const gallery = await service.parse({
+                url: 'https://example.com/articles/456',
+                html: GALLERY_HTML,
+            });
+
+            expect(gallery.urlPattern).toBe(article.urlPattern);
+            expect(gallery.templateId).not.toBe(article.templateId);
+            expect(gallery.cached).toBe(false);
+            expect(gallery.result).toEqual({ caption: 'Caption' });
+            expect(await storage.size()).toBe(2);
+            expect(generator.samples[1]).toEqual([]);
+        });
+
+        test('should reuse the parser of a similar template', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const service = new ParserService(generator, storage);
+            const page = (title: string, extra = '') =>
+                `<html><body><article><h1>${title}</h1><div class="meta"><time>Today</time>` +
+                `${extra}</div><p>Body</p><ul class="tags"><li>News</li></ul></article></body></html>`;
+
+            const getAll = jest.spyOn(storage, 'getAll');
+
+            const first = await service.parse({ url: URL, html: page('First') });
+            const second = await service.parse({
+                url: 'https://example.com/articles/456',
+                html: page('Second', '<span class="author">Jane</span>'),
+            });
+
+            expect(second.cached).toBe(true);
+            expect(second.parserKey).toBe(first.parserKey);
+            expect(second.result).toEqual({ title: 'Second' });
+            expect(await storage.size()).toBe(1);
+            expect(getAll).not.toHaveBeenCalled();
+        });
+
+        test('should fingerprint each page once', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const service = new ParserService(generator, new InMemoryParserStorage());
+            const fingerprint = jest.spyOn(domFingerprint, 'computeDomFingerprint');
+
+            try {
+                await service.parse({ url: URL, html: HTML });
+                await service.parse({ url: 'https://example.com/articles/456', html: HTML });
+
+                expect(fingerprint).toHaveBeenCalledTimes(2);
+            } finally {
+                fingerprint.mockRestore();
+            }
+        });
+
+        test('should fall back to a parser stored without a template', async () => {
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles/{id}', "return { title: $('h1').text() };");
+            const service = new ParserService(new ScriptedGenerator([]), storage);
+
+            const response = await service.parse({ url: URL, html: HTML });
+
+            expect(response.cached).toBe(true);
+            expect(response.parserKey).toBe('example.com/articles/{id}');
+            expect(response.templateId).toBeUndefined();
+        });
+    });
+
+    describe('General pattern fallback', () => {
+        const COMMENTS_URL = 'https://example.com/articles/123/comments';
+
+        test('should use a more general parser that passes validation', async () => {
+            const generator = new ScriptedGenerator([]);
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles', "return { title: $('h1').text() };");
+            await storage.set('example.com', "return { title: $('title').text() };");
+            const service = new ParserService(generator, storage);
+
+            const response = await service.parse({ url: COMMENTS_URL, html: HTML });
+
+            expect(response.urlPattern).toBe('example.com/articles/{id}/comments');
+            expect(response.matchedPattern).toBe('example.com/articles');
+            expect(response.cached).toBe(true);
+            expect(response.result).toEqual({ title: 'Article Title' });
+            expect(await storage.size()).toBe(2);
+        });
+
+        test('should explain which stored parser a URL would use', async () => {
+            const storage = new InMemoryParserStorage();
+            await storage.set('example.com/articles', "return { title: $('h1').text() };");
+            const service = new ParserService(new ScriptedGenerator([]), storage);
+
+            const explanation = await service.explainUrlPattern(COMMENTS_URL);
+
+            expect(explanation.urlPattern).toBe('example.com/articles/{id}/comments');
+            expect(explanation.segments.map(segment => segment.rule)).toEqual([
+                'dictionary-word',
+                'numeric',
+                'dictionary-word',
+            ]);
+            expect(explanation.parser).toMatchObject({
+                matchedPattern: 'example.com/articles',
+                fallback: true,
+                parsers: [{ parserKey: 'example.com/articles', version: 1 }],
+            });
+        });
+
+        test('should generate when no general parser passes validation', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const generalParser = "return { title: $('.missing').text() };";
+            await storage.set('example.com', generalParser);
+            const service = new ParserService(generator, storage);
+
+            const response = await service.parse({ url: COMMENTS_URL, html: HTML });
+
+            expect(response.cached).toBe(false);
+            expect(response.matchedPattern).toBe(response.urlPattern);
+            expect(await storage.has(response.parserKey)).toBe(true);
+            expect((await storage.get('example.com'))?.parser).toBe(generalParser);
+        });
+    });
+
+    describe('URL canonicalization', () => {
+        test('should share one parser between variants of a URL and report the canonical URL', async () => {
+            const generator = new ScriptedGenerator(["return { title: $('h1').text() };"]);
+            const storage = new InMemoryParserStorage();
+            const urlPatternRules = new UrlPatternRuleService(storage, {
+                canonicalization: {
+                    ...DEFAULT_URL_CANONICALIZATION,
+                    stripWww: true,
+                    stripMobile: true,
+                },
+            });
+            const service = new ParserService(generator, storage, undefined, { urlPatternRules });
+
+            const first = await service.parse({
+                url: 'https://WWW.example.com/articles/123/',
+                html: HTML,
+            });
+            const second = await service.parse({
+                url: 'https://m.example.com/articles/456',
+                html: HTML,
+            });
+
+            expect(first.canonicalUrl).toBe('https://example.com/articles/123');
+            expect(second.canonicalUrl).toBe('https://example.com/articles/456');
+            expect(second.cached).toBe(true);
+            expect(await storage.size()).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,386 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiskParserStorage } from '../../storage/diskParserStorage';
+import { InMemoryParserStorage } from '../../storage/inMemoryParserStorage';
+import { SqliteParserStorage } from '../../storage/sqliteParserStorage';
+import { ParserQuery, ParserStorage, ParserStorageOptions } from '../../types';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const PATTERN = 'example.com/articles/{id}';
+
+const implementations: Array<[string, (_options?: ParserStorageOptions) => ParserStorage]> = [
+    ['InMemoryParserStorage', options => new InMemoryParserStorage(options)],
+    [
+        'DiskParserStorage',
+        options =>
+            new DiskParserStorage(fs.mkdtempSync(path.join(os.tmpdir(), 'parsers-')), options),
+    ],
+    ['SqliteParserStorage', options => new SqliteParserStorage(':memory:', options)],
+];
+
+describe.each(implementations)('%s', (_name, createStorage) => {
+    let storage: ParserStorage;
+
+    beforeEach(() => {
+        storage = createStorage();
+    });
+
+    describe('Version history', () => {
+        test('should keep every version and return the latest from get', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.set(PATTERN, 'return { v: 2 };', { source: 'healed', attempts: 2 });
+
+            const current = await storage.get(PATTERN);
+            expect(current?.version).toBe(2);
+            expect(current?.parser).toBe('return { v: 2 };');
+            expect(current?.metadata).toEqual({ source: 'healed', attempts: 2 });
+
+            const versions = await storage.getVersions(PATTERN);
+            expect(versions.map(v => v.version)).toEqual([2, 1]);
+            expect(versions[1].createdAt).toBeInstanceOf(Date);
+            expect(await storage.size()).toBe(1);
+        });
+
+        test('should drop the oldest versions beyond the retention limit', async () => {
+            const limited = createStorage({ maxVersions: 2 });
+            for (let v = 1; v <= 4; v++) {
+                await limited.set(PATTERN, `return { v: ${v} };`);
+            }
+
+            expect((await limited.getVersions(PATTERN)).map(v => v.version)).toEqual([4, 3]);
+            expect(await limited.getVersion(PATTERN, 1)).toBeNull();
+            expect((await limited.rollback(PATTERN, 3))?.version).toBe(5);
+        });
+
+        test('should return a specific version', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.set(PATTERN, 'return { v: 2 };');
+
+            expect((await storage.getVersion(PATTERN, 1))?.parser).toBe('return { v: 1 };');
+            expect(await storage.getVersion(PATTERN, 3)).toBeNull();
+        });
+
+        test('should roll back by restoring an old version as the newest one', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.set(PATTERN, 'return { v: 2 };');
+
+            const restored = await storage.rollback(PATTERN, 1);
+
+            expect(restored?.version).toBe(3);
+            expect(restored?.metadata).toMatchObject({ source: 'rollback', restoredFrom: 1 });
+            expect((await storage.get(PATTERN))?.parser).toBe('return { v: 1 };');
+            expect(await storage.rollback(PATTERN, 10)).toBeNull();
+        });
+
+        test('should drop the whole history on delete', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.set(PATTERN, 'return { v: 2 };');
+
+            expect(await storage.delete(PATTERN)).toBe(true);
+            expect(await storage.getVersions(PATTERN)).toEqual([]);
+        });
+    });
+
+    describe('URL pattern rules', () => {
+        test('should keep rules apart from parsers', async () => {
+            const now = new Date('2024-01-01T00:00:00.000Z');
+            const rule = {
+                id: 'rule-1',
+                host: 'example.com',
+                path: '^/recipes/([^/]+)/[^/]+$',
+                template: '/recipes/$1/{slug}',
+                createdAt: now,
+                updatedAt: now,
+            };
+            await storage.set(PATTERN, 'return { v: 1 };');
+
+            await storage.saveUrlPatternRules([rule]);
+
+            expect(await storage.getUrlPatternRules()).toEqual([rule]);
+            expect(await storage.size()).toBe(1);
+            expect((await storage.getAll(0)).map(p => p.urlPattern)).toEqual([PATTERN]);
+        });
+    });
+
+    describe('Lookup by prefix', () => {
+        test('should return the current version of every key with the prefix', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.set(`${PATTERN}#template=aaa`, 'return { v: 1 };');
+            await storage.set(`${PATTERN}#template=aaa`, 'return { v: 2 };');
+            await storage.set(`${PATTERN}#template=bbb`, 'return { v: 1 };');
+            await storage.set('example.com/articles', 'return {};');
+
+            const parsers = await storage.getByPrefix(`${PATTERN}#template=`);
+
+            expect(parsers.map(p => [p.urlPattern, p.version]).sort()).toEqual([
+                [`${PATTERN}#template=aaa`, 2],
+                [`${PATTERN}#template=bbb`, 1],
+            ]);
+            expect(await storage.getByPrefix('other.com/')).toEqual([]);
+        });
+    });
+
+    describe('Usage', () => {
+        test('should count uses of a parser across versions', async () => {
+            await storage.set(PATTERN, 'return { v: 1 };');
+            await storage.recordUsage(PATTERN);
+            await storage.set(PATTERN, 'return { v: 2 };');
+            await storage.recordUsage(PATTERN);
+
+            const usage = (await storage.get(PATTERN))?.usage;
+            expect(usage?.count).toBe(2);
+            expect(usage?.lastUsedAt).toBeInstanceOf(Date);
+        });
+
+        test('should sort by last use, with unused parsers last', async () => {
+            for (const pattern of ['a.com/{id}', 'b.com/{id}', 'c.com/{id}']) {
+                await storage.set(pattern, 'return {};');
+            }
+            await storage.recordUsage('c.com/{id}');
+            await new Promise(resolve => setTimeout(resolve, 5));
+            await storage.recordUsage('a.com/{id}');
+
+            const page = await storage.query({ sort: 'lastUsedAt', limit: 2 });
+            expect(page.parsers.map(p => p.urlPattern)).toEqual(['a.com/{id}', 'c.com/{id}']);
+            const next = await storage.query({ sort: 'lastUsedAt', cursor: page.nextCursor || '' });
+            expect(next.parsers.map(p => p.urlPattern)).toEqual(['b.com/{id}']);
+            expect(next.nextCursor).toBeNull();
+        });
+
+        test('should keep usage out of other patterns and forget it on delete', async () => {
+            await storage.set(PATTERN, 'return {};');
+            await storage.set('example.com/other', 'return {};');
+            await storage.recordUsage(PATTERN);
+            await storage.recordUsage('example.com/missing');
+
+            expect((await storage.get('example.com/other'))?.usage).toEqual({
+                count: 0,
+                lastUsedAt: null,
+            });
+            expect((await storage.getVersions(PATTERN))[0].usage?.count).toBe(1);
+
+            await storage.delete(PATTERN);
+            await storage.set(PATTERN, 'return {};');
+            expect((await storage.get(PATTERN))?.usage?.count).toBe(0);
+            expect(await storage.has('example.com/missing')).toBe(false);
+        });
+    });
+
+    describe('Querying', () => {
+        const patternsOf = async (query: ParserQuery) =>
+            (await storage.query(query)).parsers.map(p => p.urlPattern);
+
+        beforeEach(async () => {
+            await storage.set(PATTERN, "return { title: $('h1').text() };", {
+                source: 'generated',
+                model: 'gpt-4',
+            });
+            await storage.set('example.com/about', "return { body: $('main').text() };", {
+                source: 'generated',
+                model: 'heuristic',
+            });
+            await new Promise(resolve => setTimeout(resolve, 5));
+            await storage.set('news.example.org/item', "return { title: $('.Title').text() };", {
+                source: 'healed',
+                model: 'gpt-4',
+            });
+        });
+
+        test('should filter by domain, pattern, status, model and code', async () => {
+            expect((await patternsOf({ domain: 'example.com' })).sort()).toEqual([
+                'example.com/about',
+                PATTERN,
+            ]);
+            expect(await patternsOf({ pattern: '{id}' })).toEqual([PATTERN]);
+            expect(await patternsOf({ status: 'healed' })).toEqual(['news.example.org/item']);
+            expect(await patternsOf({ model: 'gpt-4', domain: 'example.com' })).toEqual([PATTERN]);
+            expect(await patternsOf({ search: "TITLE $('h1')" })).toEqual([PATTERN]);
+            expect(await patternsOf({ search: '50%' })).toEqual([]);
+        });
+
+        test('should filter by creation date', async () => {
+            const latest = (await storage.get('news.example.org/item'))?.createdAt;
+
+            expect(await patternsOf({ createdFrom: latest })).toEqual(['news.example.org/item']);
+            expect((await patternsOf({ createdTo: new Date(Number(latest) - 1) })).length).toBe(2);
+        });
+
+        test('should page through every parser with cursors', async () => {
+            const seen: string[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await storage.query({ limit: 2, cursor });
+                expect(page.total).toBe(3);
+                seen.push(...page.parsers.map(p => p.urlPattern));
+                cursor = page.nextCursor || undefined;
+            } while (cursor);
+
+            expect(seen).toEqual(await patternsOf({}));
+            expect(seen[0]).toBe('news.example.org/item');
+            expect(new Set(seen).size).toBe(3);
+        });
+    });
+});
+
+describe('DiskParserStorage', () => {
+    let storageDir: string;
+
+    beforeEach(() => {
+        storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parsers-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(storageDir, { recursive: true, force: true });
+    });
+
+    test('should count uses in memory and write them to the usage file in one flush', async () => {
+        const storage = new DiskParserStorage(storageDir);
+        await storage.set(PATTERN, 'return {};');
+        const files = fs.readdirSync(storageDir).filter(file => file !== 'index.json');
+        const parserFile = path.join(storageDir, files[0]);
+        const before = fs.readFileSync(parserFile, 'utf8');
+
+        await storage.recordUsage(PATTERN);
+        await storage.recordUsage(PATTERN);
+        expect(fs.existsSync(path.join(storageDir, '_usage.json'))).toBe(false);
+
+        await storage.flushUsage();
+        expect(fs.readFileSync(parserFile, 'utf8')).toBe(before);
+        expect((await new DiskParserStorage(storageDir).get(PATTERN))?.usage?.count).toBe(2);
+        expect((await storage.get(PATTERN))?.usage?.count).toBe(2);
+    });
+
+    test('should read parser files written before version history existed', async () => {
+        fs.writeFileSync(
+            path.join(storageDir, 'example.com_articles_id.json'),
+            JSON.stringify({
+                urlPattern: PATTERN,
+                parser: 'return { legacy: true };',
+                createdAt: '2024-01-01T00:00:00.000Z',
+            })
+        );
+        const storage = new DiskParserStorage(storageDir);
+
+        const parser = await storage.get(PATTERN);
+        expect(parser?.version).toBe(1);
+        expect(parser?.createdAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+
+        const updated = await storage.set(PATTERN, 'return { legacy: false };');
+        expect(updated.version).toBe(2);
+        expect((await storage.getVersions(PATTERN)).length).toBe(2);
+        expect(Object.values(readIndex())).toEqual(['example.com_articles_id.json']);
+    });
+
+    const readIndex = (): Record<string, string> =>
+        JSON.parse(fs.readFileSync(path.join(storageDir, 'index.json'), 'utf8'));
+
+    test('should keep patterns that sanitize to the same name apart', async () => {
+        const storage = new DiskParserStorage(storageDir);
+        await storage.set('a.com/x_y/{id}', 'return { underscore: true };');
+        await storage.set('a.com/x/y/{id}', 'return { slash: true };');
+
+        expect((await storage.get('a.com/x_y/{id}'))?.parser).toBe('return { underscore: true };');
+        expect((await storage.get('a.com/x/y/{id}'))?.parser).toBe('return { slash: true };');
+        expect(await storage.size()).toBe(2);
+        expect(new Set(Object.values(readIndex())).size).toBe(2);
+    });
+
+    test('should not lose versions written concurrently', async () => {
+        const storages = [new DiskParserStorage(storageDir), new DiskParserStorage(storageDir)];
+        await Promise.all(
+            Array.from({ length: 6 }, (_, i) => storages[i % 2].set(PATTERN, `return { v: ${i} };`))
+        );
+
+        const versions = await storages[0].getVersions(PATTERN);
+        expect(versions.map(v => v.version)).toEqual([6, 5, 4, 3, 2, 1]);
+        expect(fs.readdirSync(storageDir).filter(file => !file.endsWith('.json'))).toEqual([]);
+    });
+
+    test('should take over a lock left behind by a crashed process', async () => {
+        const lockPath = path.join(storageDir, 'index.lock');
+        fs.writeFileSync(lockPath, '12345\n');
+        const past = new Date(Date.now() - 60000);
+        fs.utimesSync(lockPath, past, past);
+        const storage = new DiskParserStorage(storageDir);
+
+        expect((await storage.set(PATTERN, 'return {};')).version).toBe(1);
+        expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    test('should rebuild a lost index from the parser files', async () => {
+        const storage = new DiskParserStorage(storageDir);
+        await storage.set(PATTERN, 'return {};');
+        await storage.delete('example.com/other');
+        fs.unlinkSync(path.join(storageDir, 'index.json'));
+
+        expect((await storage.get(PATTERN))?.parser).toBe('return {};');
+        expect(await storage.delete(PATTERN)).toBe(true);
+        expect(await storage.size()).toBe(0);
+    });
+});
+
+describe('SqliteParserStorage', () => {
+    test('should list the most recently updated parsers first', async () => {
+        const storage = new SqliteParserStorage(':memory:');
+        await storage.set('a.com/{id}', 'return {};');
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.set('b.com/{id}', 'return {};');
+
+        expect((await storage.getAll(0)).map(p => p.urlPattern)).toEqual([
+            'b.com/{id}',
+            'a.com/{id}',
+        ]);
+        expect((await storage.getAll(1)).length).toBe(1);
+    });
+
+    test('should import a parser directory with its history, once', async () => {
+        const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'parsers-'));
+        try {
+            const disk = new DiskParserStorage(storageDir);
+            const first = await disk.set(PATTERN, 'return { v: 1 };');
+            await disk.set(PATTERN, 'return { v: 2 };', { source: 'healed' });
+            await disk.set('example.com/about', 'return { about: true };');
+            await disk.recordUsage(PATTERN);
+            await disk.saveUrlPatternRules([
+                {
+                    id: 'rule',
+                    host: 'example.com',
+                    path: '^/a$',
+                    template: '/a',
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                },
+            ]);
+            const storage = new SqliteParserStorage(':memory:');
+
+            expect(await storage.importFrom(disk)).toEqual({
+                imported: 2,
+                versions: 3,
+                skipped: 0,
+                rules: 1,
+            });
+            expect(await storage.importFrom(disk)).toMatchObject({ imported: 0, skipped: 2 });
+
+            const versions = await storage.getVersions(PATTERN);
+            expect(versions.map(v => [v.version, v.metadata?.source])).toEqual([
+                [2, 'healed'],
+                [1, 'generated'],
+            ]);
+            expect(versions[1].createdAt).toEqual(first.createdAt);
+            expect(versions[0].usage?.count).toBe(1);
+            expect((await storage.set(PATTERN, 'return { v: 3 };')).version).toBe(3);
+        } finally {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        }
+    });
+});
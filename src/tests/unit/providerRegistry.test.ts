@@ -0,0 +1,89 @@
+import { describe, test, expect } from '@jest/globals';
+import { createLlmClient, loadLlmConfig } from '../../generator/providerRegistry';
+import { getModelPricing } from '../../utils/stats';
+
+describe('loadLlmConfig', () => {
+    test('should default to OpenAI with gpt-4', () => {
+        const config = loadLlmConfig({ OPENAI_API_KEY: 'sk-test' });
+        expect(config).toEqual({
+            provider: 'openai',
+            apiKey: 'sk-test',
+            baseUrl: undefined,
+            model: 'gpt-4',
+            temperature: 0.1,
+            maxTokens: 2000,
+        });
+    });
+
+    test('should read model, temperature, max tokens and base URL', () => {
+        const config = loadLlmConfig({
+            LLM_PROVIDER: 'openai-compatible',
+            LLM_BASE_URL: 'http://localhost:8080/v1',
+            LLM_MODEL: 'qwen2.5-coder',
+            LLM_TEMPERATURE: '0',
+            LLM_MAX_TOKENS: '4096',
+        });
+        expect(config).toMatchObject({
+            provider: 'openai-compatible',
+            baseUrl: 'http://localhost:8080/v1',
+            model: 'qwen2.5-coder',
+            temperature: 0,
+            maxTokens: 4096,
+        });
+    });
+
+    test('should use the Anthropic key for the anthropic provider', () => {
+        const config = loadLlmConfig({
+            LLM_PROVIDER: 'anthropic',
+            OPENAI_API_KEY: 'sk-openai',
+            ANTHROPIC_API_KEY: 'sk-ant',
+        });
+        expect(config.apiKey).toBe('sk-ant');
+        expect(config.model).toMatch(/^claude/);
+    });
+
+    test('should reject unknown providers', () => {
+        expect(() => loadLlmConfig({ LLM_PROVIDER: 'mystery' })).toThrow(
+            'Unknown LLM provider "mystery"'
+        );
+    });
+});
+
+describe('createLlmClient', () => {
+    test('should require an API key for hosted providers', () => {
+        expect(() => createLlmClient(loadLlmConfig({}))).toThrow('API key is required');
+        expect(() => createLlmClient(loadLlmConfig({ LLM_PROVIDER: 'anthropic' }))).toThrow(
+            'API key is required'
+        );
+    });
+
+    test('should not require an API key for a local OpenAI-compatible server', () => {
+        const client = createLlmClient(
+            loadLlmConfig({
+                LLM_PROVIDER: 'openai-compatible',
+                LLM_BASE_URL: 'http://localhost:8080/v1',
+            })
+        );
+        expect(client.provider).toBe('openai-compatible');
+    });
+
+    test('should require a base URL for the openai-compatible provider', () => {
+        expect(() => createLlmClient(loadLlmConfig({ LLM_PROVIDER: 'openai-compatible' }))).toThrow(
+            'requires a base URL'
+        );
+    });
+});
+
+describe('getModelPricing', () => {
+    test('should match model families by longest prefix', () => {
+        expect(getModelPricing('gpt-4')).toEqual({ input: 0.03, output: 0.06 });
+        expect(getModelPricing('gpt-4o-mini-2024-07-18')).toEqual({
+            input: 0.00015,
+            output: 0.0006,
+        });
+    });
+
+    test('should price unknown models at zero', () => {
+        expect(getModelPricing('llama-3-8b-instruct')).toEqual({ input: 0, output: 0 });
+    });
+});
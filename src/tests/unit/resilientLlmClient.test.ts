@@ -0,0 +1,140 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { ResilientLlmClient } from '../../generator/resilientLlmClient';
+import { LlmClient, LlmCompletion } from '../../types';
+import { ApiError } from '../../types/ApiError';
+import { LlmRequestError, parseRetryAfter } from '../../types/LlmRequestError';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const OPTIONS = { model: 'gpt-4', temperature: 0.1, maxTokens: 2000 };
+const MESSAGES = [{ role: 'user' as const, content: 'Write a parser' }];
+const COMPLETION: LlmCompletion = { content: 'return {};' };
+
+const createClient = (...results: Array<LlmCompletion | Error>) => {
+    const complete = jest.fn(async (): Promise<LlmCompletion> => {
+        const result = results.shift() || COMPLETION;
+        if (result instanceof Error) {
+            throw result;
+        }
+        return result;
+    });
+    const client: LlmClient = { provider: 'openai', complete };
+    return { client, complete };
+};
+
+describe('ResilientLlmClient', () => {
+    test('should retry transient failures with exponential backoff', async () => {
+        const { client, complete } = createClient(
+            new LlmRequestError('500 Internal Server Error', 500),
+            new LlmRequestError('fetch failed')
+        );
+        const sleep = jest.fn(async (_ms: number) => undefined);
+        const resilient = new ResilientLlmClient(client, {
+            baseDelayMs: 100,
+            sleep,
+            random: () => 1,
+        });
+
+        await expect(resilient.complete(MESSAGES, OPTIONS)).resolves.toEqual(COMPLETION);
+
+        expect(complete).toHaveBeenCalledTimes(3);
+        expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+        expect(resilient.getStats()).toMatchObject({ retries: 2 });
+    });
+
+    test('should wait at least as long as Retry-After', async () => {
+        const { client } = createClient(new LlmRequestError('429 Too Many Requests', 429, 5000));
+        const sleep = jest.fn(async (_ms: number) => undefined);
+        const resilient = new ResilientLlmClient(client, { baseDelayMs: 100, sleep });
+
+        await resilient.complete(MESSAGES, OPTIONS);
+
+        expect(sleep).toHaveBeenCalledWith(5000);
+    });
+
+    test('should not retry client errors or a Retry-After beyond the maximum delay', async () => {
+        const sleep = jest.fn(async (_ms: number) => undefined);
+        const badRequest = createClient(new LlmRequestError('400 Bad Request', 400));
+        const rateLimited = createClient(new LlmRequestError('429 Too Many Requests', 429, 60000));
+
+        await expect(
+            new ResilientLlmClient(badRequest.client, { sleep }).complete(MESSAGES, OPTIONS)
+        ).rejects.toThrow('400 Bad Request');
+        await expect(
+            new ResilientLlmClient(rateLimited.client, { sleep, maxDelayMs: 30000 }).complete(
+                MESSAGES,
+                OPTIONS
+            )
+        ).rejects.toThrow('429 Too Many Requests');
+
+        expect(badRequest.complete).toHaveBeenCalledTimes(1);
+        expect(rateLimited.complete).toHaveBeenCalledTimes(1);
+        expect(sleep).not.toHaveBeenCalled();
+    });
+
+    test('should fail fast while the circuit is open and recover after the timeout', async () => {
+        let now = 0;
+        const outage = new LlmRequestError('503 Service Unavailable', 503);
+        const { client, complete } = createClient(outage, outage);
+        const resilient = new ResilientLlmClient(client, {
+            maxRetries: 0,
+            circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10000 },
+            now: () => now,
+        });
+
+        await expect(resilient.complete(MESSAGES, OPTIONS)).rejects.toThrow(LlmRequestError);
+        await expect(resilient.complete(MESSAGES, OPTIONS)).rejects.toThrow(LlmRequestError);
+
+        const error = (await resilient.complete(MESSAGES, OPTIONS).catch(e => e)) as ApiError;
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.statusCode).toBe(503);
+        expect(error.payload).toMatchObject({ code: 'LLM_CIRCUIT_OPEN', retryAfterSeconds: 10 });
+        expect(complete).toHaveBeenCalledTimes(2);
+        expect(resilient.getCircuitStatus()).toMatchObject({ state: 'open' });
+
+        now = 10000;
+        await expect(resilient.complete(MESSAGES, OPTIONS)).resolves.toEqual(COMPLETION);
+        expect(resilient.getCircuitStatus()).toMatchObject({
+            state: 'closed',
+            consecutiveFailures: 0,
+        });
+    });
+
+    test('should reopen the circuit when the trial call fails', async () => {
+        let now = 0;
+        const outage = new LlmRequestError('503 Service Unavailable', 503);
+        const { client } = createClient(outage, outage);
+        const resilient = new ResilientLlmClient(client, {
+            maxRetries: 0,
+            circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10000 },
+            now: () => now,
+        });
+
+        await expect(resilient.complete(MESSAGES, OPTIONS)).rejects.toThrow(LlmRequestError);
+        now = 10000;
+        await expect(resilient.complete(MESSAGES, OPTIONS)).rejects.toThrow(LlmRequestError);
+
+        expect(resilient.getCircuitStatus()).toMatchObject({
+            state: 'open',
+            retryAt: new Date(20000).toISOString(),
+        });
+    });
+});
+
+describe('parseRetryAfter', () => {
+    test('should accept seconds and HTTP dates', () => {
+        const now = Date.parse('2024-05-10T12:00:00Z');
+
+        expect(parseRetryAfter('20', now)).toBe(20000);
+        expect(parseRetryAfter('Fri, 10 May 2024 12:00:30 GMT', now)).toBe(30000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+});
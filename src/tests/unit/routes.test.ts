@@ -0,0 +1,147 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createRoutes } from '../../api/routes';
+import { ParserService } from '../../services/parserService';
+import { UrlPatternRuleService } from '../../services/urlPatternRuleService';
+import { InMemoryParserStorage } from '../../storage/inMemoryParserStorage';
+import { ParserGenerator } from '../../types';
+import { ApiError } from '../../types/ApiError';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const URL = 'https://example.com/articles/123';
+const HTML = '<html><body><h1>Article Title</h1><p>Article body</p></body></html>';
+const PARSER = "return { title: $('h1').text() };";
+
+class FixedGenerator implements ParserGenerator {
+    async generateParser() {
+        return { parser: PARSER, model: 'fixed' };
+    }
+
+    getStats() {
+        return {};
+    }
+}
+
+describe('Parser routes', () => {
+    let storage: InMemoryParserStorage;
+    let server: Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        storage = new InMemoryParserStorage();
+        const urlPatternRules = new UrlPatternRuleService(storage);
+        const parserService = new ParserService(new FixedGenerator(), storage, undefined, {
+            urlPatternRules,
+        });
+
+        const app = express();
+        app.use(express.json());
+        app.use('/api', createRoutes(parserService, urlPatternRules));
+        app.use(
+            (
+                err: Error,
+                req: express.Request,
+                res: express.Response,
+                _next: express.NextFunction
+            ) => {
+                if (err instanceof ApiError) {
+                    return res.status(err.statusCode).json(err.payload);
+                }
+                res.status(500).json({ error: err.message });
+            }
+        );
+
+        server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    const parse = async () => {
+        const response = await fetch(`${baseUrl}/parse`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ shortened_url: URL, scrape: HTML }),
+        });
+        return (await response.json()) as { urlPattern: string; parserKey: string };
+    };
+
+    const parserUrl = (urlPattern: string, path = '') =>
+        `${baseUrl}/parser/${encodeURIComponent(urlPattern)}${path}`;
+
+    test('should find a template-fingerprinted parser by its plain URL pattern', async () => {
+        const { urlPattern, parserKey } = await parse();
+        expect(parserKey).toMatch(/#template=/);
+
+        const versions = await fetch(parserUrl(urlPattern, '/versions'));
+        expect(versions.status).toBe(200);
+        expect(await versions.json()).toMatchObject({
+            urlPattern,
+            parserKey,
+            currentVersion: 1,
+        });
+
+        const version = await fetch(parserUrl(urlPattern, '/versions/1'));
+        expect(version.status).toBe(200);
+        expect(await version.json()).toMatchObject({ urlPattern: parserKey, parser: PARSER });
+
+        const rollback = await fetch(parserUrl(urlPattern, '/versions/1/rollback'), {
+            method: 'POST',
+        });
+        expect(rollback.status).toBe(200);
+        expect(await rollback.json()).toMatchObject({ parserKey, restoredFrom: 1, version: 2 });
+    });
+
+    test('should delete every parser of a plain URL pattern', async () => {
+        const { urlPattern, parserKey } = await parse();
+        await storage.set(`${urlPattern}#template=000000000000`, PARSER);
+
+        const response = await fetch(parserUrl(urlPattern), { method: 'DELETE' });
+
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as { parserKeys: string[] }).parserKeys.sort()).toEqual(
+            [parserKey, `${urlPattern}#template=000000000000`].sort()
+        );
+        expect(await storage.size()).toBe(0);
+        expect((await fetch(parserUrl(urlPattern), { method: 'DELETE' })).status).toBe(404);
+    });
+
+    test('should delete only the parser a parser key names', async () => {
+        const { urlPattern, parserKey } = await parse();
+        await storage.set(`${urlPattern}#template=000000000000`, PARSER);
+
+        const response = await fetch(parserUrl(parserKey), { method: 'DELETE' });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ parserKeys: [parserKey] });
+        expect(await storage.has(`${urlPattern}#template=000000000000`)).toBe(true);
+    });
+
+    test('should ask for a parser key when a URL pattern has several parsers', async () => {
+        const { urlPattern, parserKey } = await parse();
+        await storage.set(`${urlPattern}#template=000000000000`, PARSER);
+
+        const response = await fetch(parserUrl(urlPattern, '/versions'));
+
+        expect(response.status).toBe(409);
+        expect(await response.json()).toMatchObject({
+            code: 'AMBIGUOUS_URL_PATTERN',
+            parserKeys: expect.arrayContaining([parserKey]),
+        });
+        expect((await fetch(parserUrl(parserKey, '/versions'))).status).toBe(200);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from '@jest/globals';
+import * as cheerio from 'cheerio';
+import { parseSelectorSpec, runSelectorSpec } from '../../utils/selectorSpec';
+
+const HTML = `
+<html><body>
+    <h1>  Product   Name </h1>
+    <span class="price">$1,299.50</span>
+    <ul class="tags"><li>Blue</li><li> </li><li>Large</li></ul>
+    <a class="author" href="/users/jane">Jane</a>
+</body></html>`;
+
+describe('parseSelectorSpec', () => {
+    test('should accept a valid spec', () => {
+        const spec = parseSelectorSpec(
+            '{"fields": {"title": {"selector": "h1", "transforms": ["collapseWhitespace"]}}}'
+        );
+        expect(spec.fields.title.selector).toBe('h1');
+    });
+
+    test('should reject invalid JSON', () => {
+        expect(() => parseSelectorSpec('function parseHtml($) {}')).toThrow('not valid JSON');
+    });
+
+    test('should reject a spec without fields', () => {
+        expect(() => parseSelectorSpec('{"title": "h1"}')).toThrow('"fields" object');
+        expect(() => parseSelectorSpec('{"fields": {}}')).toThrow('at least one field');
+    });
+
+    test('should reject fields without a selector', () => {
+        expect(() => parseSelectorSpec('{"fields": {"title": {"attribute": "href"}}}')).toThrow(
+            'Field "title" must have a non-empty "selector"'
+        );
+    });
+
+    test('should reject unknown transforms', () => {
+        expect(() =>
+            parseSelectorSpec('{"fields": {"title": {"selector": "h1", "transforms": ["eval"]}}}')
+        ).toThrow('invalid "transforms"');
+    });
+});
+
+describe('runSelectorSpec', () => {
+    const $ = cheerio.load(HTML);
+
+    test('should extract text, attributes and multiple values', () => {
+        const result = runSelectorSpec($, {
+            fields: {
+                title: { selector: 'h1', transforms: ['collapseWhitespace'] },
+                authorUrl: { selector: '.author', attribute: 'href' },
+                tags: { selector: '.tags li', multiple: true, transforms: ['trim', 'lowercase'] },
+            },
+        });
+
+        expect(result).toEqual({
+            title: 'Product Name',
+            authorUrl: '/users/jane',
+            tags: ['blue', 'large'],
+        });
+    });
+
+    test('should convert values to numbers', () => {
+        const result = runSelectorSpec($, {
+            fields: { price: { selector: '.price', transforms: ['number'] } },
+        });
+        expect(result).toEqual({ price: 1299.5 });
+    });
+
+    test('should return null for selectors without matches', () => {
+        const result = runSelectorSpec($, {
+            fields: { subtitle: { selector: 'h2' }, image: { selector: 'h1', attribute: 'src' } },
+        });
+        expect(result).toEqual({ subtitle: null, image: null });
+    });
+});
@@ -0,0 +1,158 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { SpendBudget } from '../../utils/spendBudget';
+import { LlmParserGenerator } from '../../generator/llmParserGenerator';
+import { LlmClient, LlmCompletion } from '../../types';
+import { ApiError } from '../../types/ApiError';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const REQUEST = { domain: 'example.com', promptTokens: 1000, estimatedCostUsd: 0.5 };
+
+const captureError = (fn: () => void): ApiError => {
+    try {
+        fn();
+    } catch (error) {
+        return error as ApiError;
+    }
+    throw new Error('Expected an error');
+};
+
+describe('SpendBudget', () => {
+    test('should reject prompts above the size limit', () => {
+        const budget = new SpendBudget({ maxPromptTokens: 500 });
+
+        const error = captureError(() => budget.check(REQUEST));
+
+        expect(error.statusCode).toBe(413);
+        expect(error.payload).toMatchObject({ code: 'PROMPT_TOO_LARGE' });
+    });
+
+    test('should limit generations per domain per day', () => {
+        const budget = new SpendBudget({ domainGenerationsPerDay: 2 });
+        budget.record('example.com', 0.1);
+        budget.record('example.com', 0.1);
+
+        const error = captureError(() => budget.check(REQUEST));
+
+        expect(error.statusCode).toBe(429);
+        expect(error.payload).toMatchObject({ code: 'DOMAIN_GENERATION_LIMIT' });
+        expect(() => budget.check({ ...REQUEST, domain: 'other.com' })).not.toThrow();
+    });
+
+    test('should reject a call that could push spend over the daily cap until the next day', () => {
+        let now = new Date('2024-05-10T12:00:00Z');
+        const budget = new SpendBudget({ dailySpendUsd: 1 }, () => now);
+        budget.record('example.com', 0.75);
+
+        const error = captureError(() => budget.check(REQUEST));
+        expect(error.statusCode).toBe(402);
+        expect(error.payload).toMatchObject({ code: 'DAILY_BUDGET_EXHAUSTED', spentUsd: 0.75 });
+
+        now = new Date('2024-05-11T00:00:01Z');
+        expect(() => budget.check(REQUEST)).not.toThrow();
+    });
+
+    test('should carry spend across days within the monthly cap', () => {
+        let now = new Date('2024-05-10T12:00:00Z');
+        const budget = new SpendBudget({ monthlySpendUsd: 1 }, () => now);
+        budget.record('example.com', 0.75);
+        now = new Date('2024-05-20T12:00:00Z');
+
+        const error = captureError(() => budget.check(REQUEST));
+
+        expect(error.payload).toMatchObject({
+            code: 'MONTHLY_BUDGET_EXHAUSTED',
+            period: '2024-05',
+        });
+    });
+
+    test('should hold the estimated cost of calls in flight until they settle', () => {
+        const budget = new SpendBudget({ dailySpendUsd: 1, domainGenerationsPerDay: 3 });
+
+        const reservation = budget.reserve(REQUEST);
+        budget.reserve(REQUEST);
+        const error = captureError(() => budget.check(REQUEST));
+        expect(error.payload).toMatchObject({ code: 'DAILY_BUDGET_EXHAUSTED' });
+
+        budget.settle(reservation, 0.1);
+        budget.settle(reservation, 0.1);
+        expect(() => budget.check({ ...REQUEST, estimatedCostUsd: 0.4 })).not.toThrow();
+        expect(budget.getUsage().daily).toMatchObject({ spentUsd: 0.1, remainingUsd: 0.4 });
+    });
+
+    test('should give back the generation slot of a released call', () => {
+        const budget = new SpendBudget({ domainGenerationsPerDay: 1 });
+
+        const reservation = budget.reserve(REQUEST);
+        expect(() => budget.check(REQUEST)).toThrow(ApiError);
+
+        budget.release(reservation);
+        expect(() => budget.check(REQUEST)).not.toThrow();
+        expect(budget.getUsage().domainGenerations).toEqual({});
+    });
+
+    test('should report current consumption', () => {
+        const now = new Date('2024-05-10T12:00:00Z');
+        const budget = new SpendBudget({ dailySpendUsd: 2 }, () => now);
+        budget.record('example.com', 0.5);
+
+        expect(budget.getUsage()).toEqual({
+            daily: { period: '2024-05-10', spentUsd: 0.5, limitUsd: 2, remainingUsd: 1.5 },
+            monthly: { period: '2024-05', spentUsd: 0.5, limitUsd: null, remainingUsd: null },
+            maxPromptTokens: null,
+            domainGenerationsPerDay: null,
+            domainGenerations: { 'example.com': 1 },
+        });
+    });
+
+    test('should stop the generator before it calls the LLM', async () => {
+        const complete = jest.fn(
+            async (): Promise<LlmCompletion> => ({ content: 'return { title: "x" };' })
+        );
+        const client: LlmClient = { provider: 'openai', complete };
+        const generator = new LlmParserGenerator(
+            client,
+            { model: 'gpt-4', temperature: 0.1, maxTokens: 2000 },
+            { budget: new SpendBudget({ domainGenerationsPerDay: 1 }) }
+        );
+        const html = '<html><body><h1>Title</h1></body></html>';
+
+        await generator.generateParser('https://example.com/a/1', html);
+        await expect(generator.generateParser('https://example.com/a/2', html)).rejects.toThrow(
+            ApiError
+        );
+
+        expect(complete).toHaveBeenCalledTimes(1);
+        expect(generator.getStats().budget).toMatchObject({
+            domainGenerations: { 'example.com': 1 },
+        });
+    });
+
+    test('should not let concurrent generations overshoot the domain quota', async () => {
+        const complete = jest.fn(
+            async (): Promise<LlmCompletion> => ({ content: 'return { title: "x" };' })
+        );
+        const client: LlmClient = { provider: 'openai', complete };
+        const generator = new LlmParserGenerator(
+            client,
+            { model: 'gpt-4', temperature: 0.1, maxTokens: 2000 },
+            { budget: new SpendBudget({ domainGenerationsPerDay: 1 }) }
+        );
+        const html = '<html><body><h1>Title</h1></body></html>';
+
+        const results = await Promise.allSettled([
+            generator.generateParser('https://example.com/a/1', html),
+            generator.generateParser('https://example.com/b/2', html),
+        ]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect(complete).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_MODEL_PRICING, loadPricingTable, Stats } from '../../utils/stats';
+import { LlmParserGenerator } from '../../generator/llmParserGenerator';
+import { LlmClient, LlmCompletion } from '../../types';
+import { LlmCompletionError } from '../../types/LlmCompletionError';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const HTML = '<html><body><h1>Title</h1></body></html>';
+
+describe('Stats', () => {
+    test('should break usage down by model and price each with its own rate', () => {
+        const stats = new Stats();
+        stats.addRequest('gpt-4', { inputTokens: 1000, outputTokens: 500 });
+        stats.addRequest('gpt-4o-mini', { inputTokens: 2000, outputTokens: 1000 });
+
+        const result = stats.getStats();
+
+        expect(result.byModel).toEqual({
+            'gpt-4': { requests: 1, inputTokens: 1000, outputTokens: 500, cost: 0.06 },
+            'gpt-4o-mini': { requests: 1, inputTokens: 2000, outputTokens: 1000, cost: 0.0009 },
+        });
+        expect(result.costEstimate.totalCost).toBe(0.0609);
+        expect(result.totalRequests).toBe(2);
+    });
+
+    test('should report failed requests separately and include them in the totals', () => {
+        const stats = new Stats();
+        stats.addRequest('gpt-4', { inputTokens: 1000, outputTokens: 0 }, true);
+
+        const result = stats.getStats();
+
+        expect(result.byModel).toEqual({});
+        expect(result.failedRequests).toEqual({
+            requests: 1,
+            inputTokens: 1000,
+            outputTokens: 0,
+            cost: 0.03,
+        });
+        expect(result.costEstimate.totalCost).toBe(0.03);
+    });
+});
+
+describe('loadPricingTable', () => {
+    let directory: string | undefined;
+
+    afterEach(() => {
+        if (directory) {
+            fs.rmSync(directory, { recursive: true, force: true });
+            directory = undefined;
+        }
+    });
+
+    const writePricingFile = (content: unknown): string => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pricing-'));
+        const filePath = path.join(directory, 'pricing.json');
+        fs.writeFileSync(filePath, JSON.stringify(content));
+        return filePath;
+    };
+
+    test('should return the defaults without a file', () => {
+        expect(loadPricingTable()).toBe(DEFAULT_MODEL_PRICING);
+    });
+
+    test('should override and extend the defaults', () => {
+        const pricing = loadPricingTable(
+            writePricingFile({
+                'gpt-4': { input: 0.01, output: 0.02 },
+                'qwen2.5-coder': { input: 0.0001, output: 0.0002 },
+            })
+        );
+
+        expect(pricing['gpt-4']).toEqual({ input: 0.01, output: 0.02 });
+        expect(pricing['qwen2.5-coder']).toEqual({ input: 0.0001, output: 0.0002 });
+        expect(pricing['gpt-4o']).toEqual(DEFAULT_MODEL_PRICING['gpt-4o']);
+    });
+
+    test('should reject entries without valid prices', () => {
+        const filePath = writePricingFile({ 'gpt-4': { input: -1, output: 0.02 } });
+
+        expect(() => loadPricingTable(filePath)).toThrow('non-negative');
+    });
+});
+
+describe('LlmParserGenerator usage accounting', () => {
+    const createGenerator = (complete: LlmClient['complete']) =>
+        new LlmParserGenerator(
+            { provider: 'openai', complete },
+            { model: 'gpt-4', temperature: 0.1, maxTokens: 2000 },
+            { pricing: { 'gpt-4': { input: 1, output: 2 } } }
+        );
+
+    test('should prefer the usage reported by the provider', async () => {
+        const generator = createGenerator(
+            async (): Promise<LlmCompletion> => ({
+                content: 'return { title: "x" };',
+                usage: { inputTokens: 100, outputTokens: 10 },
+            })
+        );
+
+        const generated = await generator.generateParser('https://example.com/a/1', HTML);
+
+        expect(generated).toMatchObject({
+            model: 'gpt-4',
+            usage: { inputTokens: 100, outputTokens: 10 },
+        });
+        expect(generator.getStats()).toMatchObject({
+            byModel: { 'gpt-4': { requests: 1, inputTokens: 100, outputTokens: 10, cost: 0.12 } },
+        });
+    });
+
+    test('should record tokens consumed by a failed completion', async () => {
+        const generator = createGenerator(async (): Promise<LlmCompletion> => {
+            throw new LlmCompletionError('No content returned by openai', {
+                inputTokens: 100,
+                outputTokens: 0,
+            });
+        });
+
+        await expect(generator.generateParser('https://example.com/a/1', HTML)).rejects.toThrow(
+            'No content returned'
+        );
+
+        expect(generator.getStats()).toMatchObject({
+            byModel: {},
+            failedRequests: { requests: 1, inputTokens: 100, cost: 0.1 },
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from '@jest/globals';
+import { generateUrlPattern } from '../../utils/htmlExtractor';
+import {
+    canonicalizeUrl,
+    DEFAULT_URL_CANONICALIZATION,
+    parseHostAliases,
+} from '../../utils/urlCanonicalizer';
+
+const STRIPPING = { ...DEFAULT_URL_CANONICALIZATION, stripWww: true, stripMobile: true };
+
+describe('canonicalizeUrl', () => {
+    test('should lowercase the host and keep www and mobile prefixes by default', () => {
+        expect(canonicalizeUrl('WWW.Example.COM/Article/1')).toBe(
+            'https://www.example.com/Article/1'
+        );
+        expect(canonicalizeUrl('http://m.example.com/article/1#comments')).toBe(
+            'http://m.example.com/article/1'
+        );
+    });
+
+    test('should strip www and mobile prefixes when enabled', () => {
+        expect(canonicalizeUrl('WWW.Example.COM/Article/1', STRIPPING)).toBe(
+            'https://example.com/Article/1'
+        );
+        expect(canonicalizeUrl('http://m.example.com/article/1#comments', STRIPPING)).toBe(
+            'http://example.com/article/1'
+        );
+        expect(canonicalizeUrl('https://www.com/', STRIPPING)).toBe('https://www.com/');
+    });
+
+    test('should remove index files, duplicate and trailing slashes', () => {
+        expect(canonicalizeUrl('https://example.com/blog//posts/index.html')).toBe(
+            'https://example.com/blog/posts'
+        );
+        expect(canonicalizeUrl('https://example.com/Index.PHP?title=Main')).toBe(
+            'https://example.com/?title=Main'
+        );
+        expect(canonicalizeUrl('https://example.com/caf%c3%a9/')).toBe(
+            'https://example.com/caf%C3%A9'
+        );
+    });
+
+    test('should normalize internationalized hosts to punycode', () => {
+        expect(canonicalizeUrl('https://www.München.de/stadt', STRIPPING)).toBe(
+            'https://xn--mnchen-3ya.de/stadt'
+        );
+        expect(canonicalizeUrl('https://XN--MNCHEN-3YA.DE/stadt')).toBe(
+            'https://xn--mnchen-3ya.de/stadt'
+        );
+    });
+
+    test('should resolve host aliases and honor disabled options', () => {
+        const options = {
+            ...DEFAULT_URL_CANONICALIZATION,
+            lowercasePath: true,
+            hostAliases: parseHostAliases('example.co.uk=example.com, münchen.de=muenchen.de'),
+        };
+
+        expect(canonicalizeUrl('https://example.co.uk/News', options)).toBe(
+            'https://example.com/news'
+        );
+        expect(canonicalizeUrl('https://xn--mnchen-3ya.de/', options)).toBe('https://muenchen.de/');
+        expect(canonicalizeUrl('https://www.example.org/', options)).toBe(
+            'https://www.example.org/'
+        );
+    });
+
+    test('should give variants of the same page one URL pattern', () => {
+        const variants = [
+            'https://example.com/articles/123',
+            'EXAMPLE.com/articles/123/',
+            'https://www.example.com/articles/123/index.html',
+            'https://m.example.com/articles/123',
+        ];
+
+        expect(
+            new Set(variants.map(url => generateUrlPattern(url, { canonicalization: STRIPPING })))
+        ).toEqual(new Set(['example.com/articles/{id}']));
+    });
+});
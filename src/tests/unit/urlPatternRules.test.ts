@@ -0,0 +1,142 @@
+import { describe, test, expect, jest } from '@jest/globals';
+import { UrlPatternRuleService } from '../../services/urlPatternRuleService';
+import { InMemoryParserStorage } from '../../storage/inMemoryParserStorage';
+import { ApiError } from '../../types/ApiError';
+import { generateUrlPattern } from '../../utils/htmlExtractor';
+import { UrlPatternRule } from '../../types';
+import { DEFAULT_URL_CANONICALIZATION } from '../../utils/urlCanonicalizer';
+
+jest.mock('../../utils/logger', () => ({
+    logger: {
+        error: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+    },
+    getErrorInfo: jest.fn((error: Error) => ({ message: error.message || 'Unknown error' })),
+}));
+
+const rule = (fields: Partial<UrlPatternRule>): UrlPatternRule => ({
+    id: 'rule',
+    host: 'example.com',
+    path: '^/recipes/([^/]+)/[^/]+$',
+    template: '/recipes/$1/{slug}',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+});
+
+describe('generateUrlPattern with override rules', () => {
+    test('should apply the first matching rule before the heuristic', () => {
+        const rules = [
+            rule({ id: 'first' }),
+            rule({ id: 'second', path: '^/recipes/', template: '/recipes/{id}' }),
+        ];
+
+        expect(
+            generateUrlPattern('https://example.com/recipes/dessert/chocolate-cake', { rules })
+        ).toBe('example.com/recipes/dessert/{slug}');
+        expect(generateUrlPattern('https://example.com/recipes/all', { rules })).toBe(
+            'example.com/recipes/{id}'
+        );
+    });
+
+    test('should match subdomains with a wildcard host and named groups', () => {
+        const rules = [
+            rule({
+                host: '*.example.com',
+                path: '^/(?<section>[a-z]+)/\\d+',
+                template: '/$<section>/{id}',
+            }),
+        ];
+
+        expect(generateUrlPattern('https://shop.example.com/toys/123', { rules })).toBe(
+            'shop.example.com/toys/{id}'
+        );
+        expect(generateUrlPattern('https://example.org/toys/123', { rules })).toBe(
+            'example.org/toys/{id}'
+        );
+    });
+});
+
+describe('UrlPatternRuleService', () => {
+    test('should persist rules and report the cached parsers they cover', async () => {
+        const storage = new InMemoryParserStorage();
+        await storage.set('example.com/recipes/{id}/{id}', 'return {};');
+        await storage.set('example.com/about', 'return {};');
+        const service = new UrlPatternRuleService(storage);
+
+        const { rule: created, affectedParsers } = await service.create({
+            host: 'Example.com',
+            path: '^/recipes/([^/]+)/[^/]+$',
+            template: '/recipes/$1/{slug}',
+        });
+
+        expect(created.host).toBe('example.com');
+        expect(affectedParsers.map(p => p.urlPattern)).toEqual(['example.com/recipes/{id}/{id}']);
+        expect(await storage.getUrlPatternRules()).toEqual([created]);
+        expect(await service.getUrlPattern('https://example.com/recipes/soup/tomato')).toBe(
+            'example.com/recipes/soup/{slug}'
+        );
+
+        await service.delete(created.id);
+        expect(await storage.getUrlPatternRules()).toEqual([]);
+    });
+
+    test('should reject invalid rules and unknown ids', async () => {
+        const service = new UrlPatternRuleService(new InMemoryParserStorage());
+
+        await expect(
+            service.create({ host: 'example.com', path: '^/(unclosed', template: '/x' })
+        ).rejects.toMatchObject({ statusCode: 400, payload: { code: 'INVALID_RULE' } });
+        await expect(
+            service.create({ host: 'example.com', path: '^/recipes/', template: '/recipes/$1' })
+        ).rejects.toThrow('path has 0 groups');
+        await expect(
+            service.create({ host: 'example.com', path: '^/(a+)+$', template: '/a' })
+        ).rejects.toThrow('nested quantifiers');
+        await expect(service.get('missing')).rejects.toBeInstanceOf(ApiError);
+    });
+
+    test('should keep rule hosts in the canonical form the rules are matched against', async () => {
+        const storage = new InMemoryParserStorage();
+        await storage.saveUrlPatternRules([rule({ id: 'stored', host: 'm.example.org' })]);
+        const service = new UrlPatternRuleService(storage, {
+            canonicalization: {
+                ...DEFAULT_URL_CANONICALIZATION,
+                stripWww: true,
+                stripMobile: true,
+            },
+        });
+
+        const { rule: created } = await service.create({
+            host: 'WWW.example.com',
+            path: '^/recipes/([^/]+)/[^/]+$',
+            template: '/recipes/$1/{slug}',
+        });
+
+        expect(created.host).toBe('example.com');
+        expect(await service.getUrlPattern('https://www.example.com/recipes/soup/tomato')).toBe(
+            'example.com/recipes/soup/{slug}'
+        );
+        expect(await service.getUrlPattern('https://m.example.org/recipes/soup/tomato')).toBe(
+            'example.org/recipes/soup/{slug}'
+        );
+    });
+
+    test('should see rules changed by another instance once they are reloaded', async () => {
+        const storage = new InMemoryParserStorage();
+        const reader = new UrlPatternRuleService(storage, { reloadIntervalMs: 50 });
+        const writer = new UrlPatternRuleService(storage);
+        expect(await reader.list()).toEqual([]);
+
+        const { rule: created } = await writer.create({
+            host: 'example.com',
+            path: '^/recipes/([^/]+)/[^/]+$',
+            template: '/recipes/$1/{slug}',
+        });
+        expect(await reader.list()).toEqual([]);
+
+        await new Promise(resolve => setTimeout(resolve, 60));
+        expect(await reader.list()).toEqual([created]);
+    });
+});
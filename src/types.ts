@@ -1,31 +1,289 @@
-export interface ParserRequest {
+export interface HtmlSample {
     url: string;
     html: string;
 }
 
+export interface ParserRequest extends HtmlSample {
+    // Further pages of the same URL pattern; the parser must work on all of them
+    samples?: HtmlSample[];
+}
+
+export type OutputSchema = Record<string, unknown>;
+
+export interface SchemaValidationError {
+    path: string;
+    message: string;
+    keyword: string;
+}
+
 export interface ParserResponse {
     parser: string;
+    kind: ParserKind;
     cached: boolean;
     urlPattern: string;
     createdAt: Date;
+    version: number;
+    schemaHash?: string;
+    // Storage key of the parser: the URL pattern, qualified by schema and page template
+    parserKey: string;
+    // Page template cluster, when templates are fingerprinted
+    templateId?: string;
+    // URL pattern of the parser that ran: urlPattern itself, or a more general pattern it fell back to
+    matchedPattern: string;
+    // The requested URL after canonicalization, which the URL pattern was generated from
+    canonicalUrl?: string;
+    healed?: boolean;
+}
+
+export interface ParseResponse extends ParserResponse {
+    result: unknown;
+}
+
+export type ParserKind = 'javascript' | 'selector-spec';
+
+export type SelectorTransform =
+    | 'trim'
+    | 'collapseWhitespace'
+    | 'lowercase'
+    | 'uppercase'
+    | 'number';
+
+export interface SelectorFieldSpec {
+    selector: string;
+    // Attribute to read; the element text is used when omitted
+    attribute?: string;
+    multiple?: boolean;
+    // Applied in order; defaults to ['trim']
+    transforms?: SelectorTransform[];
+}
+
+export interface SelectorSpec {
+    fields: Record<string, SelectorFieldSpec>;
+}
+
+export type ParserSource = 'generated' | 'healed' | 'rollback';
+
+export interface ParserMetadata {
+    source: ParserSource;
+    attempts?: number;
+    // Number of pages the parser was validated against
+    samples?: number;
+    restoredFrom?: number;
+    // Page template the parser was generated for
+    fingerprint?: DomFingerprint;
+    // Every candidate drawn for the parser, when more than one was
+    candidates?: ParserCandidateReport[];
+    selectedCandidate?: number;
+    // Model that wrote the parser, or `heuristic`
+    model?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Structural fingerprint of a page: the distinct tag/class paths of its
+ * cleaned DOM, and a hash of them that identifies the page template.
+ */
+export interface DomFingerprint {
+    hash: string;
+    features: string[];
+}
+
+// Each part is between 0 and 1, higher is better
+export interface ParserScore {
+    // Share of top-level fields with a value
+    fieldCoverage: number;
+    // Share of the words in the page's main content found in the extracted text
+    contentMatch: number;
+    // Share of the extracted text that is not navigation, banners or other page chrome
+    boilerplateFree: number;
+    total: number;
+}
+
+export interface ParserCandidateReport {
+    // Omitted for the configured temperature
+    temperature?: number;
+    valid: boolean;
+    score?: ParserScore;
+    error?: string;
 }
 
 export interface StoredParser {
     urlPattern: string;
     parser: string;
+    kind: ParserKind;
     createdAt: Date;
+    version: number;
+    metadata?: ParserMetadata;
+    // Counted across versions
+    usage?: ParserUsage;
+}
+
+export interface ParserUsage {
+    count: number;
+    lastUsedAt: Date | null;
+}
+
+export interface ParserStorageOptions {
+    // Versions kept per URL pattern, the oldest dropped first; 0 keeps every version
+    maxVersions?: number;
+}
+
+export type ParserSortField = 'createdAt' | 'lastUsedAt';
+
+/**
+ * Filters for listing parsers, all optional and combined with AND. Dates,
+ * status and model are those of the current version.
+ */
+export interface ParserQuery {
+    // Host of the URL pattern, matched exactly
+    domain?: string;
+    // Substring of the URL pattern
+    pattern?: string;
+    // Inclusive bounds on the creation date
+    createdFrom?: Date;
+    createdTo?: Date;
+    status?: ParserSource;
+    model?: string;
+    // Words that must all appear in the parser code, case-insensitively
+    search?: string;
+    // Newest first; parsers never used come last when sorting by last use
+    sort?: ParserSortField;
+    limit?: number;
+    // `nextCursor` of the previous page
+    cursor?: string;
+}
+
+export interface ParserPage {
+    parsers: StoredParser[];
+    // Matching parsers across all pages
+    total: number;
+    nextCursor: string | null;
 }
 
 export interface ParserStorage {
     get(_urlPattern: string): Promise<StoredParser | null>;
-    set(_urlPattern: string, _parser: string): Promise<StoredParser>;
+    set(
+        _urlPattern: string,
+        _parser: string,
+        _metadata?: ParserMetadata,
+        _kind?: ParserKind
+    ): Promise<StoredParser>;
+    getVersions(_urlPattern: string): Promise<StoredParser[]>;
+    getVersion(_urlPattern: string, _version: number): Promise<StoredParser | null>;
+    rollback(_urlPattern: string, _version: number): Promise<StoredParser | null>;
     has(_urlPattern: string): Promise<boolean>;
     getAll(_limit?: number): Promise<StoredParser[]>;
+    // Current versions of the parsers whose key starts with the prefix
+    getByPrefix(_prefix: string): Promise<StoredParser[]>;
+    query(_query: ParserQuery): Promise<ParserPage>;
     delete(_urlPattern: string): Promise<boolean>;
     size(): Promise<number>;
+    // Counts a successful run of the current parser for the pattern
+    recordUsage(_urlPattern: string): Promise<void>;
+    getUrlPatternRules(): Promise<UrlPatternRule[]>;
+    saveUrlPatternRules(_rules: UrlPatternRule[]): Promise<void>;
+}
+
+/**
+ * Overrides the URL pattern heuristic for matching URLs. The first rule whose
+ * host and path match wins; the pattern is the URL's hostname followed by the
+ * template, with `$1` or `$<name>` replaced by the path's capture groups.
+ */
+export interface UrlPatternRule {
+    id: string;
+    // Hostname, or `*.example.com` for the domain and all of its subdomains
+    host: string;
+    // Regular expression tested against the URL path
+    path: string;
+    // Pattern path such as `/recipes/$1/{id}`
+    template: string;
+    description?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type UrlPatternRuleInput = Pick<
+    UrlPatternRule,
+    'host' | 'path' | 'template' | 'description'
+>;
+
+export interface ParserFeedback {
+    previousParser: string;
+    error: string;
+    output?: unknown;
+}
+
+export interface ParserGenerationOptions {
+    kind?: ParserKind;
+    schema?: OutputSchema;
+    feedback?: ParserFeedback;
+    // Pages of the same URL pattern besides the one passed to `generateParser`
+    samples?: HtmlSample[];
+    // Overrides the configured sampling temperature, to draw varied candidates
+    temperature?: number;
+}
+
+export interface GeneratedParser {
+    parser: string;
+    // The model that wrote the parser, or `heuristic`
+    model: string;
+    // Tokens the call consumed, for parsers written by an LLM
+    usage?: LlmUsage;
 }
 
 export interface ParserGenerator {
-    generateParser(_url: string, _htmlText: string): Promise<string>;
-    getStats(): Record<string, string | number | Record<string, string | number>>;
+    generateParser(
+        _url: string,
+        _htmlText: string,
+        _options?: ParserGenerationOptions
+    ): Promise<GeneratedParser>;
+    getStats(): Record<string, unknown>;
+    // State of the circuit breaker guarding the LLM provider, when there is one
+    getCircuitStatus?(): CircuitBreakerStatus | undefined;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface LlmCompletion {
+    content: string;
+    // Token usage as reported by the provider, when it reports any
+    usage?: LlmUsage;
+}
+
+export interface LlmCompletionOptions {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface LlmClient {
+    readonly provider: string;
+    complete(_messages: ChatMessage[], _options: LlmCompletionOptions): Promise<LlmCompletion>;
+    // Retry and circuit breaker counters, for clients that keep them
+    getStats?(): Record<string, unknown>;
+    getCircuitStatus?(): CircuitBreakerStatus;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+    name: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: string | null;
+    retryAt: string | null;
+}
+
+export interface LlmConfig extends LlmCompletionOptions {
+    provider: string;
+    apiKey?: string;
+    baseUrl?: string;
 }
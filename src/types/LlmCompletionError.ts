@@ -0,0 +1,15 @@
+import { LlmUsage } from '../types';
+
+/**
+ * A completion request that failed after the provider had already processed
+ * it, so the tokens it reports were billed even though no usable output came back.
+ */
+export class LlmCompletionError extends Error {
+    public readonly usage?: LlmUsage;
+
+    constructor(message: string, usage?: LlmUsage) {
+        super(message);
+        this.name = 'LlmCompletionError';
+        this.usage = usage;
+    }
+}
@@ -0,0 +1,33 @@
+/**
+ * A completion request the provider rejected or never answered. `status` is
+ * missing for network errors; `retryAfterMs` comes from the `Retry-After` header.
+ */
+export class LlmRequestError extends Error {
+    public readonly status?: number;
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, status?: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'LlmRequestError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(
+    value: string | null | undefined,
+    now: number = Date.now()
+): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,95 @@
+import { CircuitBreakerStatus, CircuitState } from '../types';
+
+export interface CircuitBreakerOptions {
+    // Consecutive failed calls that open the circuit
+    failureThreshold?: number;
+    // How long the circuit stays open before a trial call is let through
+    resetTimeoutMs?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30000;
+
+/**
+ * Stops calls to a failing dependency. After `failureThreshold` consecutive
+ * failures the circuit opens and calls are refused until `resetTimeoutMs` has
+ * passed; then a single trial call is allowed (half-open), which closes the
+ * circuit on success and reopens it on failure.
+ */
+export class CircuitBreaker {
+    public readonly name: string;
+    private failureThreshold: number;
+    private resetTimeoutMs: number;
+    private now: () => number;
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(name: string, options: CircuitBreakerOptions = {}, now: () => number = Date.now) {
+        this.name = name;
+        this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.resetTimeoutMs = options.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+        this.now = now;
+    }
+
+    /**
+     * Whether a call may go ahead. In the half-open state only the first caller
+     * is let through; it must report back with `recordSuccess` or `recordFailure`.
+     */
+    tryAcquire(): boolean {
+        if (this.state === 'open' && this.openedAt !== null) {
+            if (this.now() - this.openedAt < this.resetTimeoutMs) {
+                return false;
+            }
+            this.state = 'half-open';
+        }
+        if (this.state === 'half-open') {
+            if (this.trialInFlight) {
+                return false;
+            }
+            this.trialInFlight = true;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = this.now();
+        }
+    }
+
+    // Milliseconds until a trial call is allowed, 0 when calls are allowed now
+    getRetryAfterMs(): number {
+        if (this.state !== 'open' || this.openedAt === null) {
+            return 0;
+        }
+        return Math.max(0, this.openedAt + this.resetTimeoutMs - this.now());
+    }
+
+    getStatus(): CircuitBreakerStatus {
+        // An open circuit whose timeout has passed is reported as ready for a trial call
+        const state =
+            this.state === 'open' && this.getRetryAfterMs() === 0 ? 'half-open' : this.state;
+        return {
+            name: this.name,
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+            retryAt:
+                this.openedAt === null
+                    ? null
+                    : new Date(this.openedAt + this.resetTimeoutMs).toISOString(),
+        };
+    }
+}
@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { AnyNode, Element, isTag } from 'domhandler';
+import { DomFingerprint } from '../types';
+import { getCleanedCheerioInstance } from './htmlExtractor';
+import { isGeneratedName } from './htmlSampler';
+
+// Deep enough to tell an article from a listing, shallow enough to ignore content
+const MAX_FINGERPRINT_DEPTH = 5;
+const MAX_FINGERPRINT_FEATURES = 400;
+const MAX_CLASSES_PER_ELEMENT = 2;
+
+function getSignature(node: Element): string {
+    const classes = (node.attribs.class || '')
+        .split(/\s+/)
+        .filter(className => className && !isGeneratedName(className))
+        .sort()
+        .slice(0, MAX_CLASSES_PER_ELEMENT);
+    return classes.length > 0 ? `${node.name}.${classes.join('.')}` : node.name;
+}
+
+function collectFeatures(
+    nodes: AnyNode[],
+    parentPath: string,
+    depth: number,
+    features: Set<string>
+): void {
+    if (depth > MAX_FINGERPRINT_DEPTH) {
+        return;
+    }
+    for (const node of nodes) {
+        if (!isTag(node)) {
+            continue;
+        }
+        // Repeated siblings share a path, so list lengths do not change the fingerprint
+        const path = parentPath ? `${parentPath}>${getSignature(node)}` : getSignature(node);
+        features.add(path);
+        collectFeatures(node.children, path, depth + 1, features);
+    }
+}
+
+/**
+ * Fingerprints the template of a page from the tag/class skeleton of its
+ * cleaned body. Text, attributes other than classes, generated class names and
+ * the number of repeated siblings are ignored, so pages rendered from the same
+ * template share a hash.
+ */
+export function computeDomFingerprint(html: string): DomFingerprint {
+    const $ = getCleanedCheerioInstance(html);
+    const body = $('body').get(0);
+
+    const features = new Set<string>();
+    collectFeatures(body && isTag(body) ? body.children : [], '', 1, features);
+
+    const sorted = Array.from(features).sort().slice(0, MAX_FINGERPRINT_FEATURES);
+    return {
+        hash: createHash('sha256').update(sorted.join('\n')).digest('hex').substring(0, 12),
+        features: sorted,
+    };
+}
+
+// Jaccard similarity of the feature sets, between 0 and 1
+export function getFingerprintSimilarity(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const shared = b.filter(feature => setA.has(feature)).length;
+    const union = setA.size + b.length - shared;
+    return union === 0 ? 1 : shared / union;
+}
@@ -0,0 +1,155 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const fsPromises = fs.promises;
+
+export interface FileLockOptions {
+    // How long to wait for another holder before giving up
+    timeoutMs?: number;
+    // Age after which a lock is considered left behind by a crashed process
+    staleMs?: number;
+    // Delay between attempts to take the lock
+    retryDelayMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const DEFAULT_RETRY_DELAY_MS = 20;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const isErrorCode = (error: unknown, code: string): boolean =>
+    typeof error === 'object' && error !== null && 'code' in error && error.code === code;
+
+// Unique name next to the target, so the rename that replaces it stays on one filesystem
+const getTempPath = (filePath: string): string =>
+    path.join(
+        path.dirname(filePath),
+        `.${path.basename(filePath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+    );
+
+/**
+ * Writes a file through a temporary file that is flushed and renamed over the
+ * target, so readers and a crash only ever see the old or the new content.
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = getTempPath(filePath);
+
+    try {
+        const handle = await fsPromises.open(tempPath, 'w');
+        try {
+            await handle.writeFile(data, 'utf8');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fsPromises.rename(tempPath, filePath);
+    } catch (error) {
+        await fsPromises.rm(tempPath, { force: true });
+        throw error;
+    }
+}
+
+// What a lock file holds: who created it, unique across processes and calls
+const createLockToken = (): string => `${process.pid}:${randomBytes(8).toString('hex')}\n`;
+
+const readLockToken = async (lockPath: string): Promise<string | null> => {
+    try {
+        return await fsPromises.readFile(lockPath, 'utf8');
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Removes a lock older than `staleMs`. It is renamed first so that only one
+ * waiter takes it over, then checked: when another waiter replaced the stale
+ * lock with a live one in the meantime, the renamed file is put back.
+ */
+async function removeStaleLock(lockPath: string, staleMs: number): Promise<void> {
+    let stats: fs.Stats;
+    try {
+        stats = await fsPromises.stat(lockPath);
+    } catch {
+        return;
+    }
+    if (Date.now() - stats.mtimeMs < staleMs) {
+        return;
+    }
+
+    const stalePath = getTempPath(lockPath);
+    try {
+        await fsPromises.rename(lockPath, stalePath);
+    } catch {
+        // Another waiter took it over first
+        return;
+    }
+
+    try {
+        const renamed = await fsPromises.stat(stalePath);
+        if (renamed.ino !== stats.ino || renamed.mtimeMs !== stats.mtimeMs) {
+            // Fails if yet another lock was created, whose holder then keeps it
+            await fsPromises.link(stalePath, lockPath).catch(() => undefined);
+        }
+    } finally {
+        await fsPromises.rm(stalePath, { force: true });
+    }
+}
+
+// Removes the lock only if it still holds our token, so a lock taken over by someone else stays
+async function releaseLock(lockPath: string, token: string): Promise<void> {
+    if ((await readLockToken(lockPath)) === token) {
+        await fsPromises.rm(lockPath, { force: true });
+    }
+}
+
+/**
+ * Runs `fn` while holding an advisory lock: a file created exclusively at
+ * `lockPath` with a token unique to this call, and removed afterwards if it
+ * still holds that token. Processes and calls that go through the same lock
+ * file are serialized. The holder refreshes the lock's date while `fn` runs,
+ * so only the lock of a crashed holder gets older than `staleMs` and is taken
+ * over.
+ */
+export async function withFileLock<T>(
+    lockPath: string,
+    fn: () => Promise<T>,
+    options: FileLockOptions = {}
+): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+    const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const deadline = Date.now() + timeoutMs;
+    const token = createLockToken();
+
+    for (;;) {
+        try {
+            await fsPromises.writeFile(lockPath, token, { flag: 'wx' });
+            break;
+        } catch (error) {
+            if (!isErrorCode(error, 'EEXIST')) {
+                throw error;
+            }
+        }
+
+        if (Date.now() >= deadline) {
+            throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+        }
+        await removeStaleLock(lockPath, staleMs);
+        await sleep(retryDelayMs);
+    }
+
+    const heartbeat = setInterval(() => {
+        const now = new Date();
+        fsPromises.utimes(lockPath, now, now).catch(() => undefined);
+    }, staleMs / 2);
+    heartbeat.unref();
+
+    try {
+        return await fn();
+    } finally {
+        clearInterval(heartbeat);
+        await releaseLock(lockPath, token);
+    }
+}
@@ -1,10 +1,33 @@
 import * as cheerio from 'cheerio';
-import { minify } from 'html-minifier-terser';
 import { getErrorInfo, logger } from './logger';
 import * as SpellChecker from 'spellchecker';
 import { removeWhiteSpace } from './sanitization';
+import { HtmlSamplingOptions, sampleHtmlStructure } from './htmlSampler';
+import { applyUrlPatternRules } from './urlPatternRules';
+import { detectUrlLanguages, getLocaleLanguage } from './urlLocale';
+import {
+    canonicalizeUrl,
+    DEFAULT_URL_CANONICALIZATION,
+    UrlCanonicalizationOptions,
+} from './urlCanonicalizer';
+import { isKnownWord } from './wordLists';
+import {
+    classifyQueryParam,
+    DEFAULT_QUERY_PARAM_CONFIG,
+    generateQueryPattern,
+    QueryParamClass,
+    QueryParamConfig,
+} from './urlQueryPattern';
+import { UrlPatternRule } from '../types';
 
 const MAIN_CONTENT_SELECTORS = [
+    '[itemprop="articleBody"]',
+    '.article-body',
+    '.article-content',
+    '.post-content',
+    '.entry-content',
+    '.story-body',
+    '#mw-content-text',
     'main',
     'article',
     '.content',
@@ -16,7 +39,14 @@ const MAIN_CONTENT_SELECTORS = [
     '[role="main"]',
 ];
 
-const MAX_SAMPLE_HTML_LENGTH = 3000;
+// A selector match with less text than this is treated as a wrapper, not the content
+const MIN_CONTENT_TEXT_LENGTH = 200;
+const MIN_PARAGRAPH_TEXT_LENGTH = 25;
+const MAX_SHARED_STRUCTURE_SELECTORS = 40;
+const TEXT_BLOCK_SELECTOR = 'p, pre, blockquote, li';
+
+// Cheerio does not re-export domhandler's node types, so name the selection type by inference
+type ElementSelection = ReturnType<cheerio.CheerioAPI>;
 
 const normalizeUrl = (url: string): string => {
     if (url.startsWith('http://') || url.startsWith('https://')) {
@@ -25,54 +55,234 @@ const normalizeUrl = (url: string): string => {
     return `https://${url}`;
 };
 
-export function generateUrlPattern(url: string): string {
+export function getUrlDomain(url: string): string {
     try {
-        const urlObj = new URL(normalizeUrl(url));
-        const pathname = urlObj.pathname;
+        return new URL(normalizeUrl(url)).hostname;
+    } catch {
+        return url;
+    }
+}
 
-        const segments = pathname.split('/').filter(segment => segment.length > 0);
-        const patternSegments = segments.map(segment => {
-            if (/^\d+$/.test(segment)) {
-                return '{id}';
-            }
-            if (/^[a-f0-9-]{8,}$/.test(segment)) {
-                return '{uuid}';
-            }
-            if (segment.length >= 20 || isLikelyId(segment)) {
-                return '{id}';
-            }
-            return segment;
-        });
+/**
+ * Rule that decided whether a path segment is kept or templated:
+ * - `numeric`, `uuid`, `long` (20+ characters), `non-ascii`, `alphanumeric`
+ *   (letters mixed with digits or capitals): templated as an id
+ * - `locale` (a first segment such as `fr` or `pt-br`), `dictionary-word`,
+ *   `common-path-word`, `literal` (anything else): kept
+ * - `misspelled`: templated, no dictionary of the URL's languages knows the word
+ * - `kebab-case`, `separated-words`, `pascal-case`: split into words, kept only
+ *   when every word is a dictionary word
+ * - `encoded-words`: kept, a percent-encoded or accented slug made of dictionary words
+ */
+export type UrlSegmentRule =
+    | 'numeric'
+    | 'uuid'
+    | 'long'
+    | 'non-ascii'
+    | 'encoded-words'
+    | 'locale'
+    | 'dictionary-word'
+    | 'misspelled'
+    | 'common-path-word'
+    | 'kebab-case'
+    | 'separated-words'
+    | 'pascal-case'
+    | 'alphanumeric'
+    | 'literal';
+
+export interface UrlSegmentClassification {
+    segment: string;
+    // The segment in the URL pattern: itself, `{id}` or `{uuid}`
+    pattern: string;
+    rule: UrlSegmentRule;
+    // Words of a split segment, and the language whose dictionary knows each
+    words?: SegmentWord[];
+}
+
+export interface SegmentWord {
+    word: string;
+    dictionaryWord: boolean;
+    // `en` for the spellchecker, else a bundled word list
+    language?: string;
+}
+
+interface SegmentVerdict {
+    isId: boolean;
+    rule: UrlSegmentRule;
+    words?: SegmentWord[];
+}
+
+export interface UrlPatternOptions {
+    rules?: UrlPatternRule[];
+    queryParams?: QueryParamConfig;
+    canonicalization?: UrlCanonicalizationOptions;
+}
 
-        const pattern = patternSegments.length > 0 ? `/${patternSegments.join('/')}` : '';
-        return `${urlObj.hostname}${pattern}`;
+export interface UrlPatternExplanation {
+    // The URL the pattern was generated from, after canonicalization
+    canonicalUrl: string;
+    urlPattern: string;
+    // Override rule that produced the path; its segments are then not classified
+    rule: UrlPatternRule | null;
+    // Languages detected from the host and path, whose word lists are checked besides English
+    languages: string[];
+    segments: UrlSegmentClassification[];
+    queryParams: Array<{ name: string; class: QueryParamClass }>;
+}
+
+/**
+ * Pattern shared by all URLs that one parser handles. The URL is canonicalized
+ * first, so `WWW.Example.com/a/` and `example.com/a` share a pattern. Override rules are
+ * tried next; without a matching rule, path segments that look like ids are
+ * replaced with placeholders. Query parameters that are not noise follow the path.
+ */
+export function generateUrlPattern(url: string, options: UrlPatternOptions = {}): string {
+    try {
+        return explainUrlPattern(url, options).urlPattern;
     } catch (error) {
         logger.error('Error generating URL pattern:', getErrorInfo(error));
         return url;
     }
 }
 
-function isLikelyEnglishWord(segment: string): boolean {
-    const letterCount = (segment.match(/[a-zA-Z]/g) || []).length;
+/**
+ * Generates the URL pattern along with how it was derived: the override rule
+ * that matched, or the rule that classified each path segment, and the class
+ * of each query parameter. Throws on an invalid URL.
+ */
+export function explainUrlPattern(
+    url: string,
+    options: UrlPatternOptions = {}
+): UrlPatternExplanation {
+    const {
+        rules = [],
+        queryParams = DEFAULT_QUERY_PARAM_CONFIG,
+        canonicalization = DEFAULT_URL_CANONICALIZATION,
+    } = options;
+    const canonicalUrl = canonicalizeUrl(url, canonicalization);
+    const urlObj = new URL(canonicalUrl);
+    const queryPattern = generateQueryPattern(urlObj.searchParams, queryParams);
+    const queryParamClasses = Array.from(new Set(urlObj.searchParams.keys())).map(name => ({
+        name,
+        class: classifyQueryParam(name, queryParams),
+    }));
+
+    const languages = detectUrlLanguages(urlObj);
+
+    const ruleMatch = applyUrlPatternRules(urlObj, rules);
+    if (ruleMatch) {
+        return {
+            canonicalUrl,
+            urlPattern: `${ruleMatch.pattern}${queryPattern}`,
+            rule: ruleMatch.rule,
+            languages,
+            segments: [],
+            queryParams: queryParamClasses,
+        };
+    }
+
+    const segments = urlObj.pathname
+        .split('/')
+        .filter(segment => segment.length > 0)
+        .map(
+            (segment, index): UrlSegmentClassification =>
+                index === 0 && getLocaleLanguage(segment)
+                    ? { segment, pattern: segment, rule: 'locale' }
+                    : classifyUrlSegment(segment, languages)
+        );
+
+    const pattern = segments.length > 0 ? `/${segments.map(s => s.pattern).join('/')}` : '';
+    return {
+        canonicalUrl,
+        urlPattern: `${urlObj.hostname}${pattern}${queryPattern}`,
+        rule: null,
+        languages,
+        segments,
+        queryParams: queryParamClasses,
+    };
+}
+
+/**
+ * Progressively more general versions of a URL pattern, most specific first:
+ * without the query, then without each trailing path segment down to the
+ * domain. `example.com/blog/{id}/comments` gives `example.com/blog/{id}`,
+ * `example.com/blog` and `example.com`.
+ */
+export function getFallbackPatterns(urlPattern: string): string[] {
+    const [path, query] = urlPattern.split('?');
+    const patterns = query !== undefined ? [path] : [];
+
+    const segments = path.split('/');
+    for (let length = segments.length - 1; length >= 1; length--) {
+        patterns.push(segments.slice(0, length).join('/'));
+    }
+    return patterns;
+}
+
+// Language whose dictionary knows the word: `en` for the spellchecker, else one of `languages`
+function findWordLanguage(word: string, languages: string[]): string | null {
+    const letterCount = (word.match(/\p{L}/gu) || []).length;
+
+    if (letterCount / word.length < 0.7) {
+        return null;
+    }
+
+    if (!SpellChecker.isMisspelled(word.toLowerCase())) {
+        return 'en';
+    }
+    return languages.find(language => isKnownWord(language, word)) || null;
+}
+
+const isDictionaryWord = (word: string, languages: string[]): boolean =>
+    findWordLanguage(word, languages) !== null;
 
-    if (letterCount / segment.length < 0.7) {
-        return false;
+const checkWords = (words: string[], languages: string[]): SegmentWord[] =>
+    words.map(word => {
+        const language = findWordLanguage(word, languages);
+        return language
+            ? { word, dictionaryWord: true, language }
+            : { word, dictionaryWord: false };
+    });
+
+/**
+ * Decides whether a path segment is kept or templated. Words are looked up in
+ * the English spellchecker and in the bundled word lists of `languages`.
+ */
+export function classifyUrlSegment(
+    segment: string,
+    languages: string[] = []
+): UrlSegmentClassification {
+    if (/^\d+$/.test(segment)) {
+        return { segment, pattern: '{id}', rule: 'numeric' };
+    }
+    if (/^[a-f0-9-]{8,}$/.test(segment)) {
+        return { segment, pattern: '{uuid}', rule: 'uuid' };
+    }
+    // Percent-encoding would make any slug with accents look long
+    if (decodeURIComponent(segment).length >= 20) {
+        return { segment, pattern: '{id}', rule: 'long' };
     }
 
-    return !SpellChecker.isMisspelled(segment.toLowerCase());
+    const { isId, rule, words } = classifyIdSegment(segment, languages);
+    return { segment, pattern: isId ? '{id}' : segment, rule, ...(words ? { words } : {}) };
 }
 
-function isLikelyId(urlSegment: string): boolean {
+function classifyIdSegment(urlSegment: string, languages: string[]): SegmentVerdict {
     urlSegment = decodeURIComponent(urlSegment);
 
     // Check if string contains UTF-8 characters (non-ASCII)
-    // If it does, assume it's an ID (likely encoded content)
+    // Unless it is a slug of known words, assume it's an ID (likely encoded content)
     if (/[^\x20-\x7E]/.test(urlSegment)) {
-        return true;
+        const words = checkWords(urlSegment.split(/[-_.]/), languages);
+        return words.every(word => word.dictionaryWord)
+            ? { isId: false, rule: 'encoded-words', words }
+            : { isId: true, rule: 'non-ascii' };
     }
 
     if (urlSegment.length < 8) {
-        return !isLikelyEnglishWord(urlSegment);
+        return isDictionaryWord(urlSegment, languages)
+            ? { isId: false, rule: 'dictionary-word' }
+            : { isId: true, rule: 'misspelled' };
     }
 
     const commonPathWords = [
@@ -162,7 +372,7 @@ function isLikelyId(urlSegment: string): boolean {
     const lowerSegment = urlSegment.toLowerCase();
 
     if (commonPathWords.includes(lowerSegment)) {
-        return false;
+        return { isId: false, rule: 'common-path-word' };
     }
 
     // Check if segment can be split into parts and analyzed
@@ -174,44 +384,50 @@ function isLikelyId(urlSegment: string): boolean {
         urlSegment.includes('.')
     ) {
         let words: string[] = [];
+        let rule: UrlSegmentRule = 'pascal-case';
 
         if (urlSegment.includes('-')) {
             // Kebab-case: split on hyphens
             words = urlSegment.split('-');
+            rule = 'kebab-case';
         } else if (urlSegment.includes('_') || urlSegment.includes('.')) {
             // Underscore or dot separated: split on both
             words = urlSegment.split(/[_.]/);
+            rule = 'separated-words';
         } else if (/^[A-Z][a-z]+$/.test(urlSegment)) {
             // PascalCase: split on capital letters
             words = urlSegment.split(/(?=[A-Z])/);
 
             // If we only got one word in PascalCase, let's assume it's an ID
             if (words.length === 1) {
-                return true;
+                return { isId: true, rule };
             }
         }
 
-        // Check if all words are English words
-        // If any word is not a valid English word, it's likely an ID
-        const allWordsAreEnglish = words.every(word => isLikelyEnglishWord(word));
-
         // If all words are English, it's not an ID (it's a semantic path)
         // If any word is not English, it's likely an ID
-        return !allWordsAreEnglish;
+        const checkedWords = checkWords(words, languages);
+        return {
+            isId: !checkedWords.every(word => word.dictionaryWord),
+            rule,
+            words: checkedWords,
+        };
     }
 
     // Alphanumeric strings of 8+ characters that aren't kebab-case are likely IDs
     // This catches things like "abc123def" or "user12345" but excludes "user-profile"
     if (/^[a-zA-Z0-9]{8,}$/.test(urlSegment) && !/^[a-z-]+$/.test(urlSegment)) {
-        return true;
+        return { isId: true, rule: 'alphanumeric' };
     }
 
     // If the segment is the same as the lower segment and not a word, it's likely an ID
-    if (urlSegment === lowerSegment && !isLikelyEnglishWord(urlSegment)) {
-        return true;
+    if (urlSegment === lowerSegment) {
+        return isDictionaryWord(urlSegment, languages)
+            ? { isId: false, rule: 'dictionary-word' }
+            : { isId: true, rule: 'misspelled' };
     }
 
-    return false;
+    return { isId: false, rule: 'literal' };
 }
 
 interface HtmlStructure {
@@ -223,6 +439,50 @@ interface HtmlStructure {
     images: number;
 }
 
+export interface SharedStructure {
+    // Ids and classes present on every sample, in document order of the first one
+    shared: string[];
+    // Ids and classes present on only some samples, likely specific to one page
+    varying: string[];
+}
+
+function collectIdAndClassSelectors($: cheerio.CheerioAPI): string[] {
+    const selectors = new Set<string>();
+    $('body *').each((_, element) => {
+        const $el = $(element);
+        const id = $el.attr('id');
+        if (id) {
+            selectors.add(`#${id}`);
+        }
+        for (const className of ($el.attr('class') || '').split(/\s+/)) {
+            if (className) {
+                selectors.add(`.${className}`);
+            }
+        }
+    });
+    return Array.from(selectors);
+}
+
+/**
+ * Compares several pages of one URL pattern, so the generator can prefer
+ * selectors that exist on all of them over ones tied to a single page.
+ */
+export function findSharedStructure(htmlTexts: string[]): SharedStructure {
+    const perSample = htmlTexts.map(html =>
+        collectIdAndClassSelectors(getCleanedCheerioInstance(html))
+    );
+    const sets = perSample.map(selectors => new Set(selectors));
+    const ordered = Array.from(new Set(perSample.flat()));
+
+    const shared = ordered.filter(selector => sets.every(set => set.has(selector)));
+    const varying = ordered.filter(selector => !sets.every(set => set.has(selector)));
+
+    return {
+        shared: shared.slice(0, MAX_SHARED_STRUCTURE_SELECTORS),
+        varying: varying.slice(0, MAX_SHARED_STRUCTURE_SELECTORS),
+    };
+}
+
 export function getCleanedCheerioInstance(htmlText: string): cheerio.CheerioAPI {
     const $ = cheerio.load(htmlText);
     $('script, style, noscript, iframe, embed, object, nav, header, footer').remove();
@@ -230,151 +490,129 @@ export function getCleanedCheerioInstance(htmlText: string): cheerio.CheerioAPI
 }
 
 export async function preprocessHtmlForOpenAI(
-    htmlText: string
+    htmlText: string,
+    samplingOptions: HtmlSamplingOptions = {}
 ): Promise<{ structure: HtmlStructure; sampleHtml: string }> {
     const $: cheerio.CheerioAPI = getCleanedCheerioInstance(htmlText);
 
-    const mainContent = extractMainContent($);
+    const mainContent = findContentBlock($);
     const structure: HtmlStructure = {
-        title: $('title').text().trim(),
+        title: $('head > title').text().trim(),
         headings: $('h1, h2, h3')
             .map((i, el) => $(el).text().trim())
             .get()
             .slice(0, 10),
-        mainContent: mainContent.text().trim().substring(0, 500),
+        mainContent: removeWhiteSpace(mainContent.text()).substring(0, 500),
         forms: $('form').length,
         links: $('a[href]').length,
         images: $('img[src]').length,
     };
 
-    let sampleHtml = removeWhiteSpace(mainContent.html() || htmlText);
-    try {
-        sampleHtml = await minify(sampleHtml, {
-            collapseWhitespace: true,
-            removeComments: true,
-            removeEmptyElements: true,
-            removeEmptyAttributes: true,
-            removeRedundantAttributes: true,
-            removeScriptTypeAttributes: true,
-            removeStyleLinkTypeAttributes: true,
-            minifyCSS: true,
-            minifyJS: true,
-        });
-    } catch (error) {
-        logger.error('Error minifying HTML:', getErrorInfo(error));
-    }
-
-    if (sampleHtml.length > MAX_SAMPLE_HTML_LENGTH) {
-        sampleHtml = removeUnecessaryAttributes(sampleHtml);
-    }
-
-    return { structure, sampleHtml: sampleHtml.substring(0, MAX_SAMPLE_HTML_LENGTH) };
+    return {
+        structure,
+        sampleHtml: sampleHtmlStructure($, samplingOptions, mainContent.get(0)),
+    };
 }
 
-function extractMainContent($: cheerio.CheerioAPI): cheerio.Cheerio<any> {
-    const headerWithMeta = $('head')
-        .filter((_, headerElement) => {
-            const $header = $(headerElement);
-            return $header.find('meta[name], meta[property]').length > 0;
-        })
-        .first();
-
-    if (headerWithMeta.length > 0) {
-        return headerWithMeta;
-    }
-
+/**
+ * Finds the element holding the page's main content: the first well-known
+ * content container with a meaningful amount of text, otherwise the block
+ * with the highest text density.
+ */
+export function findContentBlock($: cheerio.CheerioAPI): ElementSelection {
     for (const selector of MAIN_CONTENT_SELECTORS) {
         const element = $(selector).first();
-        if (element.length > 0) {
+        if (
+            element.length > 0 &&
+            removeWhiteSpace(element.text()).length >= MIN_CONTENT_TEXT_LENGTH
+        ) {
             return element;
         }
     }
 
-    return $('body');
+    return findDensestTextBlock($) || $('body');
 }
 
-function removeUnecessaryAttributes(html: string): string {
-    const $ = cheerio.load(html);
+// Scores every text block's parent (and, at half weight, grandparent) by the
+// amount of non-link text it holds, in the spirit of readability-style extractors.
+function findDensestTextBlock($: cheerio.CheerioAPI): ElementSelection | null {
+    const blocks = $(TEXT_BLOCK_SELECTOR).toArray();
+    const scores = new Map<(typeof blocks)[number], number>();
+
+    for (const block of blocks) {
+        const $block = $(block);
+        const textLength = removeWhiteSpace($block.text()).length;
+        if (textLength < MIN_PARAGRAPH_TEXT_LENGTH) {
+            continue;
+        }
 
-    $('*').each((_, element) => {
-        const $el = $(element);
-        if (element.type !== 'tag') return;
-        const attributes = element.attribs || {};
-        const attributeNames = Object.keys(attributes);
+        const linkTextLength = removeWhiteSpace($block.find('a').text()).length;
+        const score = textLength * (1 - linkTextLength / textLength);
 
-        if (attributeNames.length === 0) return;
+        const parent = $block.parent().toArray()[0];
+        if (parent) {
+            scores.set(parent, (scores.get(parent) || 0) + score);
+            const grandparent = $(parent).parent().toArray()[0];
+            if (grandparent) {
+                scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+            }
+        }
+    }
 
-        if (attributes.id) {
-            Object.keys(attributes).forEach(attr => $el.removeAttr(attr));
-            $el.attr('id', attributes.id);
-            return;
+    let best: (typeof blocks)[number] | null = null;
+    let bestScore = 0;
+    for (const [element, score] of scores) {
+        if (score > bestScore) {
+            best = element;
+            bestScore = score;
         }
+    }
+
+    return best ? $(best) : null;
+}
 
-        if (attributes['data-test-id']) {
-            Object.keys(attributes).forEach(attr => $el.removeAttr(attr));
-            $el.attr('data-test-id', attributes['data-test-id']);
-            return;
+/**
+ * Builds a CSS selector that matches the given element on this page, preferring
+ * an id, then a unique class combination, then a path anchored at the closest
+ * ancestor with an id.
+ */
+export function buildElementSelector($: cheerio.CheerioAPI, element: ElementSelection): string {
+    const path: string[] = [];
+    let current = element.first();
+
+    while (current.length > 0) {
+        const tagName = (current.prop('tagName') || '').toLowerCase();
+        if (!tagName || tagName === 'html') {
+            break;
         }
 
-        if (attributes.class) {
-            const classes = attributes.class.split(/\s+/).filter((c: string) => c.trim());
-            if (classes.length > 0) {
-                // Find the most unique class (longest or most specific)
-                const mostUniqueClass = classes.reduce((a: string, b: string) =>
-                    a.length > b.length ||
-                    (a.length === b.length && a.includes('-') && !b.includes('-'))
-                        ? a
-                        : b
-                );
-                // Remove all attributes first
-                Object.keys(attributes).forEach(attr => $el.removeAttr(attr));
-                $el.attr('class', mostUniqueClass);
-                return;
-            }
+        const id = current.attr('id');
+        if (id && /^[A-Za-z][\w-]*$/.test(id) && $(`#${id}`).length === 1) {
+            path.unshift(`#${id}`);
+            return path.join(' > ');
         }
 
-        const identifyingAttrs = [
-            'name',
-            'data-name',
-            'data-id',
-            'data-value',
-            'data-label',
-            'data-cy',
-            'data-test',
-            'data-qa',
-            'data-automation',
-            'aria-label',
-            'aria-labelledby',
-            'for',
-            'type',
-            'value',
-        ];
-
-        let bestAttr = null;
-        let bestScore = 0;
-
-        for (const attrName of identifyingAttrs) {
-            if (attributes[attrName]) {
-                const value = attributes[attrName];
-                // Score based on length and specificity
-                let score = value.length;
-                if (attrName.startsWith('data-')) score += 10; // Prefer data attributes
-                if (attrName.includes('test') || attrName.includes('cy') || attrName.includes('qa'))
-                    score += 5; // Prefer test attributes
-                if (value.includes('-') || value.includes('_')) score += 3; // Prefer kebab/snake case
-
-                if (score > bestScore) {
-                    bestScore = score;
-                    bestAttr = { name: attrName, value };
-                }
-            }
+        const classes = (current.attr('class') || '')
+            .split(/\s+/)
+            .filter(className => /^[A-Za-z_-][\w-]*$/.test(className));
+        const classSelector = classes.length > 0 ? `${tagName}.${classes.join('.')}` : '';
+        if (classSelector && $(classSelector).length === 1) {
+            path.unshift(classSelector);
+            return path.join(' > ');
         }
 
-        if (bestAttr) {
-            Object.keys(attributes).forEach(attr => $el.removeAttr(attr));
-            $el.attr(bestAttr.name, bestAttr.value);
+        const siblings = current.parent().children(tagName);
+        path.unshift(
+            siblings.length > 1
+                ? `${tagName}:nth-of-type(${current.prevAll(tagName).length + 1})`
+                : tagName
+        );
+
+        if (tagName === 'body') {
+            break;
         }
-    });
+        current = current.parent();
+    }
 
-    return $.html();
+    return path.join(' > ');
 }
@@ -0,0 +1,259 @@
+import * as cheerio from 'cheerio';
+import { AnyNode, Element, isTag, isText } from 'domhandler';
+import { countTokens } from './tokenCounter';
+import { removeWhiteSpace } from './sanitization';
+
+export interface HtmlSamplingOptions {
+    // Upper bound for the sample, measured with the generation model's tokenizer
+    tokenBudget?: number;
+    model?: string;
+}
+
+// The main content block gets its own, larger allowance than the rest of the page
+interface DetailLevel {
+    maxTextLength: number;
+    maxDepth: number;
+    maxFocusTextLength: number;
+    maxFocusDepth: number;
+}
+
+interface RenderContext {
+    level: DetailLevel;
+    focus?: AnyNode;
+    // The focus element and its ancestors are never cut off
+    focusPath: Set<AnyNode>;
+    inFocus: boolean;
+    // Relative to the focus element once inside it
+    depth: number;
+    // Absolute, bounded by MAX_NESTING_DEPTH
+    nesting: number;
+}
+
+export const DEFAULT_SAMPLE_TOKEN_BUDGET = 2000;
+const DEFAULT_MODEL = 'gpt-4';
+
+// Tried in order until the rendered skeleton fits the budget
+const DETAIL_LEVELS: DetailLevel[] = [
+    { maxTextLength: 200, maxDepth: Infinity, maxFocusTextLength: 200, maxFocusDepth: Infinity },
+    { maxTextLength: 80, maxDepth: Infinity, maxFocusTextLength: 200, maxFocusDepth: Infinity },
+    { maxTextLength: 30, maxDepth: Infinity, maxFocusTextLength: 120, maxFocusDepth: Infinity },
+    { maxTextLength: 0, maxDepth: 10, maxFocusTextLength: 80, maxFocusDepth: Infinity },
+    { maxTextLength: 0, maxDepth: 6, maxFocusTextLength: 80, maxFocusDepth: 12 },
+    { maxTextLength: 0, maxDepth: 4, maxFocusTextLength: 40, maxFocusDepth: 10 },
+    { maxTextLength: 0, maxDepth: 3, maxFocusTextLength: 0, maxFocusDepth: 8 },
+    { maxTextLength: 0, maxDepth: 2, maxFocusTextLength: 0, maxFocusDepth: 5 },
+];
+
+// Deeper elements are collapsed even on the focus path, so hostile markup cannot exhaust the stack
+const MAX_NESTING_DEPTH = 200;
+const MAX_CLASSES_PER_ELEMENT = 3;
+const MAX_META_CONTENT_LENGTH = 120;
+const KEPT_ATTRIBUTES = ['itemprop', 'role', 'data-testid', 'data-test-id', 'datetime'];
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'source', 'wbr']);
+// Meta tags that never describe the page content
+const IGNORED_META_NAMES = new Set([
+    'viewport',
+    'referrer',
+    'robots',
+    'generator',
+    'format-detection',
+    'theme-color',
+    'handheldfriendly',
+    'mobileoptimized',
+    'application-name',
+]);
+
+// Hashed names (css-1x2y3z, sc-a8f3k2) and long numbers identify a build or a record, not a role
+export const isGeneratedName = (name: string): boolean =>
+    /\d{4,}/.test(name) || (/^[a-z]{1,4}-[a-z0-9]{5,}$/i.test(name) && /\d/.test(name));
+
+const truncate = (text: string, maxLength: number): string =>
+    text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+
+const escapeAttribute = (value: string): string => value.replace(/"/g, '&quot;');
+
+function getDistinctiveAttributes(attribs: Record<string, string> = {}): string {
+    const attributes: string[] = [];
+
+    if (attribs.id && !isGeneratedName(attribs.id)) {
+        attributes.push(`id="${escapeAttribute(attribs.id)}"`);
+    }
+
+    const classes = (attribs.class || '')
+        .split(/\s+/)
+        .filter(className => className && !isGeneratedName(className))
+        .slice(0, MAX_CLASSES_PER_ELEMENT);
+    if (classes.length > 0) {
+        attributes.push(`class="${escapeAttribute(classes.join(' '))}"`);
+    }
+
+    for (const name of KEPT_ATTRIBUTES) {
+        if (attribs[name]) {
+            attributes.push(`${name}="${escapeAttribute(truncate(attribs[name], 60))}"`);
+        }
+    }
+
+    return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+// Siblings with the same signature are rendered once, with a count of the others
+function getSignature(node: Element): string {
+    const classes = (node.attribs.class || '').split(/\s+/).filter(Boolean).sort().join('.');
+    return `${node.name}.${classes}`;
+}
+
+// Iterative, as the subtree below a collapsed element can be arbitrarily deep
+function countDescendantElements(node: Element): number {
+    let count = 0;
+    const pending: Element[] = [node];
+    for (let current = pending.pop(); current; current = pending.pop()) {
+        const children = current.children.filter(isTag);
+        count += children.length;
+        pending.push(...children);
+    }
+    return count;
+}
+
+function renderChildren(children: AnyNode[], context: RenderContext): string {
+    const signatureCounts = new Map<string, number>();
+    for (const child of children) {
+        if (isTag(child)) {
+            const signature = getSignature(child);
+            signatureCounts.set(signature, (signatureCounts.get(signature) || 0) + 1);
+        }
+    }
+
+    const maxTextLength = context.inFocus
+        ? context.level.maxFocusTextLength
+        : context.level.maxTextLength;
+    const rendered = new Set<string>();
+    let output = '';
+
+    for (const child of children) {
+        if (isText(child)) {
+            const text = removeWhiteSpace(child.data);
+            if (text && maxTextLength > 0) {
+                output += truncate(text, maxTextLength);
+            }
+            continue;
+        }
+        if (!isTag(child)) {
+            continue;
+        }
+
+        // The branch leading to the main content is always rendered, even when it repeats
+        const signature = getSignature(child);
+        if (rendered.has(signature) && !context.focusPath.has(child)) {
+            continue;
+        }
+        const firstOfSignature = !rendered.has(signature);
+        rendered.add(signature);
+
+        output += renderElement(child, context);
+        const similar = (signatureCounts.get(signature) || 1) - 1;
+        if (firstOfSignature && similar > 0) {
+            output += `<!-- ${similar} more similar <${child.name}> -->`;
+        }
+    }
+
+    return output;
+}
+
+function renderElement(node: Element, context: RenderContext): string {
+    const { name } = node;
+    const openTag = `<${name}${getDistinctiveAttributes(node.attribs)}>`;
+
+    if (VOID_ELEMENTS.has(name)) {
+        return openTag;
+    }
+
+    const inFocus = context.inFocus || node === context.focus;
+    const depth = node === context.focus ? 1 : context.depth + 1;
+    const nesting = context.nesting + 1;
+    const maxDepth = inFocus ? context.level.maxFocusDepth : context.level.maxDepth;
+
+    if ((depth > maxDepth && !context.focusPath.has(node)) || nesting > MAX_NESTING_DEPTH) {
+        const descendants = countDescendantElements(node);
+        return descendants > 0
+            ? `${openTag}<!-- ${descendants} elements --></${name}>`
+            : `${openTag}</${name}>`;
+    }
+
+    const children = renderChildren(node.children, { ...context, inFocus, depth, nesting });
+    return `${openTag}${children}</${name}>`;
+}
+
+// Title and meta tags are where metadata such as author and publish date usually lives
+function renderHead($: cheerio.CheerioAPI): string {
+    const parts: string[] = [];
+
+    const title = removeWhiteSpace($('head > title').first().text());
+    if (title) {
+        parts.push(`<title>${truncate(title, MAX_META_CONTENT_LENGTH)}</title>`);
+    }
+
+    $('head meta[name][content], head meta[property][content]').each((_, element) => {
+        const $meta = $(element);
+        const key = $meta.attr('property') ? 'property' : 'name';
+        const metaName = ($meta.attr(key) || '').toLowerCase();
+        const content = truncate(
+            removeWhiteSpace($meta.attr('content') || ''),
+            MAX_META_CONTENT_LENGTH
+        );
+        if (!content || IGNORED_META_NAMES.has(metaName) || metaName.includes('verif')) {
+            return;
+        }
+        parts.push(
+            `<meta ${key}="${escapeAttribute($meta.attr(key) || '')}" content="${escapeAttribute(content)}">`
+        );
+    });
+
+    return parts.length > 0 ? `<head>${parts.join('')}</head>` : '';
+}
+
+/**
+ * Renders a structural sample of the whole document that fits the token budget:
+ * every branch of the DOM is kept, repeated siblings are collapsed into one
+ * representative with a count, and only distinctive attributes survive. Detail
+ * (text length, then depth) is reduced until the sample fits, more slowly inside
+ * `focus`, the page's main content block.
+ */
+export function sampleHtmlStructure(
+    $: cheerio.CheerioAPI,
+    options: HtmlSamplingOptions = {},
+    focus?: AnyNode
+): string {
+    const tokenBudget = options.tokenBudget ?? DEFAULT_SAMPLE_TOKEN_BUDGET;
+    const model = options.model || DEFAULT_MODEL;
+
+    const head = renderHead($);
+    const body = $('body').get(0);
+    const bodyChildren = body?.children || $.root().get(0)?.children || [];
+
+    const focusPath = new Set<AnyNode>();
+    for (let node: AnyNode | null | undefined = focus; node; node = node.parent) {
+        focusPath.add(node);
+    }
+
+    let sample = '';
+    for (const level of DETAIL_LEVELS) {
+        const context: RenderContext = {
+            level,
+            focus,
+            focusPath,
+            inFocus: false,
+            depth: 0,
+            nesting: 0,
+        };
+        sample = `${head}<body>${renderChildren(bodyChildren, context)}</body>`;
+        if (countTokens(sample, model) <= tokenBudget) {
+            return sample;
+        }
+    }
+
+    // Even the coarsest skeleton is too large; cut it down to the budget
+    while (sample.length > 0 && countTokens(sample, model) > tokenBudget) {
+        sample = sample.substring(0, Math.floor(sample.length * 0.9));
+    }
+    return sample;
+}
@@ -0,0 +1,88 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { createHash } from 'crypto';
+import { OutputSchema, SchemaValidationError } from '../types';
+
+const MAX_COMPILED_SCHEMAS = 100;
+
+// Least recently used first
+const compiledSchemas: Map<string, ValidateFunction> = new Map();
+
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as OutputSchema)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * Hash that identifies a schema regardless of key order, so equivalent schemas
+ * share a cached parser.
+ */
+export function hashOutputSchema(schema: OutputSchema): string {
+    return createHash('sha256').update(stableStringify(schema)).digest('hex').substring(0, 12);
+}
+
+/**
+ * Each schema is compiled by its own Ajv instance, so schemas that reuse an
+ * `$id` do not clash, and an evicted schema leaves nothing registered behind.
+ */
+function getValidator(schema: OutputSchema): ValidateFunction {
+    const hash = hashOutputSchema(schema);
+    const cached = compiledSchemas.get(hash);
+    if (cached) {
+        compiledSchemas.delete(hash);
+        compiledSchemas.set(hash, cached);
+        return cached;
+    }
+
+    const validate = new Ajv({ allErrors: true, strict: false }).compile(schema);
+    compiledSchemas.set(hash, validate);
+    if (compiledSchemas.size > MAX_COMPILED_SCHEMAS) {
+        const oldest = compiledSchemas.keys().next().value;
+        if (oldest !== undefined) {
+            compiledSchemas.delete(oldest);
+        }
+    }
+    return validate;
+}
+
+/**
+ * Throws when the schema itself is not a valid JSON Schema.
+ */
+export function assertValidOutputSchema(schema: unknown): asserts schema is OutputSchema {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        throw new Error('Schema must be a JSON object');
+    }
+    try {
+        getValidator(schema as OutputSchema);
+    } catch (error) {
+        throw new Error(
+            `Invalid JSON Schema: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+    }
+}
+
+export function validateAgainstSchema(
+    result: unknown,
+    schema: OutputSchema
+): SchemaValidationError[] {
+    const validate = getValidator(schema);
+    if (validate(result)) {
+        return [];
+    }
+
+    return (validate.errors || []).map(error => ({
+        path: error.instancePath || '/',
+        message: error.message || 'is invalid',
+        keyword: error.keyword,
+    }));
+}
+
+export const describeSchemaErrors = (errors: SchemaValidationError[]): string =>
+    `Output does not match the schema: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`;
@@ -0,0 +1,120 @@
+import { ParserPage, ParserQuery, ParserSortField, StoredParser } from '../types';
+
+export const DEFAULT_PARSER_PAGE_SIZE = 20;
+export const MAX_PARSER_PAGE_SIZE = 100;
+
+// Where the previous page ended: the sort value and URL pattern of its last parser
+export interface ParserCursor {
+    value: string;
+    urlPattern: string;
+}
+
+// The host part of a URL pattern
+export const getPatternDomain = (urlPattern: string): string => urlPattern.split(/[/?#]/)[0];
+
+/**
+ * The value parsers are sorted by, as an ISO date string; a parser that was
+ * never used gets an empty string, which sorts after every date.
+ */
+export function getSortValue(parser: StoredParser, sort: ParserSortField = 'createdAt'): string {
+    if (sort === 'lastUsedAt') {
+        return parser.usage?.lastUsedAt?.toISOString() ?? '';
+    }
+    return parser.createdAt.toISOString();
+}
+
+export const getSearchTerms = (search?: string): string[] =>
+    (search || '')
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(term => term.length > 0);
+
+export const encodeParserCursor = (cursor: ParserCursor): string =>
+    Buffer.from(JSON.stringify([cursor.value, cursor.urlPattern])).toString('base64url');
+
+// Throws an `Error` for a cursor that was not produced by `encodeParserCursor`
+export function decodeParserCursor(cursor: string): ParserCursor {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('Invalid cursor');
+    }
+
+    if (
+        !Array.isArray(decoded) ||
+        decoded.length !== 2 ||
+        !decoded.every(part => typeof part === 'string')
+    ) {
+        throw new Error('Invalid cursor');
+    }
+    return { value: decoded[0], urlPattern: decoded[1] };
+}
+
+// Plain code unit order, as SQLite compares text
+const compareDescending = (a: string, b: string): number => (a < b ? 1 : a > b ? -1 : 0);
+
+export function matchesParserQuery(parser: StoredParser, query: ParserQuery): boolean {
+    const { domain, pattern, createdFrom, createdTo, status, model, search } = query;
+
+    if (domain !== undefined && getPatternDomain(parser.urlPattern) !== domain) {
+        return false;
+    }
+    if (pattern !== undefined && !parser.urlPattern.includes(pattern)) {
+        return false;
+    }
+    if (createdFrom && parser.createdAt < createdFrom) {
+        return false;
+    }
+    if (createdTo && parser.createdAt > createdTo) {
+        return false;
+    }
+    if (status !== undefined && parser.metadata?.source !== status) {
+        return false;
+    }
+    if (model !== undefined && parser.metadata?.model !== model) {
+        return false;
+    }
+
+    const code = parser.parser.toLowerCase();
+    return getSearchTerms(search).every(term => code.includes(term));
+}
+
+/**
+ * Filters, sorts and pages a list of parsers, for storages that cannot query
+ * their own index. Parsers are ordered newest first by the sort field, then by
+ * URL pattern, so a cursor always points at one position in the list.
+ */
+export function queryParsers(parsers: StoredParser[], query: ParserQuery): ParserPage {
+    const { sort, cursor } = query;
+    const limit = query.limit || DEFAULT_PARSER_PAGE_SIZE;
+
+    const matching = parsers
+        .filter(parser => matchesParserQuery(parser, query))
+        .map(parser => ({ parser, value: getSortValue(parser, sort) }))
+        .sort(
+            (a, b) =>
+                compareDescending(a.value, b.value) ||
+                compareDescending(a.parser.urlPattern, b.parser.urlPattern)
+        );
+
+    const after = cursor ? decodeParserCursor(cursor) : undefined;
+    const remaining = after
+        ? matching.filter(
+              ({ parser, value }) =>
+                  value < after.value ||
+                  (value === after.value && parser.urlPattern < after.urlPattern)
+          )
+        : matching;
+
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+        parsers: page.map(({ parser }) => parser),
+        total: matching.length,
+        nextCursor:
+            remaining.length > limit
+                ? encodeParserCursor({ value: last.value, urlPattern: last.parser.urlPattern })
+                : null,
+    };
+}
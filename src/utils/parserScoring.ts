@@ -0,0 +1,92 @@
+import * as cheerio from 'cheerio';
+import { ParserScore } from '../types';
+import { findContentBlock } from './htmlExtractor';
+import { getParseResultCoverage, removeWhiteSpace } from './sanitization';
+
+const SCORE_WEIGHTS = { fieldCoverage: 0.4, contentMatch: 0.4, boilerplateFree: 0.2 };
+
+const BOILERPLATE_SELECTOR = [
+    'nav',
+    'header',
+    'footer',
+    'aside',
+    '[role="navigation"]',
+    '[role="banner"]',
+    '[role="contentinfo"]',
+    '[class*="cookie"]',
+    '[id*="cookie"]',
+    '[class*="newsletter"]',
+].join(', ');
+
+const BOILERPLATE_PHRASES =
+    /\b(cookies?|privacy policy|terms of (use|service)|all rights reserved|subscribe|sign (in|up)|log ?in|newsletter|share (this|on)|follow us|advertisement|skip to (main )?content)\b/i;
+
+// Longer values that mention a boilerplate phrase are usually content that happens to use it
+const MAX_BOILERPLATE_PHRASE_LENGTH = 200;
+
+const roundScore = (value: number): number => Math.round(value * 1000) / 1000;
+
+const getWords = (text: string): Set<string> =>
+    new Set(
+        text
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(word => word.length > 2)
+    );
+
+function collectStrings(value: unknown, strings: string[] = []): string[] {
+    if (typeof value === 'string') {
+        const text = removeWhiteSpace(value);
+        if (text) {
+            strings.push(text);
+        }
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, strings));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, strings));
+    }
+    return strings;
+}
+
+/**
+ * Scores what a parser extracted from a page, to choose between candidate
+ * parsers: how many fields it filled, how much of the page's main content it
+ * captured and how little of its text is navigation, cookie banners and similar chrome.
+ */
+export function scoreParseResult(result: unknown, html: string): ParserScore {
+    const $ = cheerio.load(html);
+    $('script, style, noscript, template').remove();
+
+    const boilerplate = $(BOILERPLATE_SELECTOR);
+    const boilerplateText = removeWhiteSpace(boilerplate.text());
+    boilerplate.remove();
+    const mainText = removeWhiteSpace(findContentBlock($).text());
+
+    const strings = collectStrings(result);
+    const extractedWords = getWords(strings.join(' '));
+    const mainWords = getWords(mainText);
+    const matchedWords = Array.from(mainWords).filter(word => extractedWords.has(word)).length;
+
+    const isBoilerplate = (text: string): boolean =>
+        (text.length <= MAX_BOILERPLATE_PHRASE_LENGTH && BOILERPLATE_PHRASES.test(text)) ||
+        (boilerplateText.includes(text) && !mainText.includes(text));
+    const totalLength = strings.reduce((sum, text) => sum + text.length, 0);
+    const boilerplateLength = strings
+        .filter(isBoilerplate)
+        .reduce((sum, text) => sum + text.length, 0);
+
+    const fieldCoverage = getParseResultCoverage(result);
+    const contentMatch = mainWords.size > 0 ? matchedWords / mainWords.size : 1;
+    const boilerplateFree = totalLength > 0 ? 1 - boilerplateLength / totalLength : 1;
+
+    return {
+        fieldCoverage: roundScore(fieldCoverage),
+        contentMatch: roundScore(contentMatch),
+        boilerplateFree: roundScore(boilerplateFree),
+        total: roundScore(
+            fieldCoverage * SCORE_WEIGHTS.fieldCoverage +
+                contentMatch * SCORE_WEIGHTS.contentMatch +
+                boilerplateFree * SCORE_WEIGHTS.boilerplateFree
+        ),
+    };
+}
@@ -32,6 +32,13 @@ export const sanitizeParserCode = (code: string): string => {
     return runnableFunction;
 };
 
+export const sanitizeSelectorSpec = (code: string): string => {
+    const codeBlockRegex = /```(?:json)?\s*\n([\s\S]*?)\n```/;
+    const match = code.match(codeBlockRegex);
+
+    return match && match[1] ? match[1].trim() : code.trim();
+};
+
 export const sanitizeParseResult = (result: unknown): unknown => {
     if (!result) {
         return result;
@@ -55,3 +62,35 @@ export const sanitizeParseResult = (result: unknown): unknown => {
 
     return result;
 };
+
+export const isEmptyParseResult = (result: unknown): boolean => {
+    if (result === null || result === undefined) {
+        return true;
+    }
+
+    if (typeof result === 'string') {
+        return result.trim().length === 0;
+    }
+
+    if (Array.isArray(result)) {
+        return result.every(item => isEmptyParseResult(item));
+    }
+
+    if (typeof result === 'object') {
+        return Object.values(result).every(value => isEmptyParseResult(value));
+    }
+
+    return false;
+};
+
+export const getParseResultCoverage = (result: unknown): number => {
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+        const values = Object.values(result);
+        if (values.length === 0) {
+            return 0;
+        }
+        return values.filter(value => !isEmptyParseResult(value)).length / values.length;
+    }
+
+    return isEmptyParseResult(result) ? 0 : 1;
+};
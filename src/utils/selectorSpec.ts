@@ -0,0 +1,125 @@
+import * as cheerio from 'cheerio';
+import { SelectorFieldSpec, SelectorSpec, SelectorTransform } from '../types';
+
+export const SELECTOR_TRANSFORMS: SelectorTransform[] = [
+    'trim',
+    'collapseWhitespace',
+    'lowercase',
+    'uppercase',
+    'number',
+];
+
+const applyTransform = (value: string | number | null, transform: SelectorTransform) => {
+    if (value === null || typeof value === 'number') {
+        return value;
+    }
+
+    switch (transform) {
+        case 'trim':
+            return value.trim();
+        case 'collapseWhitespace':
+            return value.replace(/\s+/g, ' ').trim();
+        case 'lowercase':
+            return value.toLowerCase();
+        case 'uppercase':
+            return value.toUpperCase();
+        case 'number': {
+            const parsed = parseFloat(value.replace(/[^0-9.+-]/g, ''));
+            return Number.isNaN(parsed) ? null : parsed;
+        }
+    }
+};
+
+const validateField = (name: string, field: unknown): SelectorFieldSpec => {
+    if (!field || typeof field !== 'object' || Array.isArray(field)) {
+        throw new Error(`Field "${name}" must be an object`);
+    }
+
+    const { selector, attribute, multiple, transforms } = field as Record<string, unknown>;
+
+    if (typeof selector !== 'string' || selector.trim().length === 0) {
+        throw new Error(`Field "${name}" must have a non-empty "selector"`);
+    }
+    if (attribute !== undefined && typeof attribute !== 'string') {
+        throw new Error(`Field "${name}" has a non-string "attribute"`);
+    }
+    if (multiple !== undefined && typeof multiple !== 'boolean') {
+        throw new Error(`Field "${name}" has a non-boolean "multiple"`);
+    }
+    if (
+        transforms !== undefined &&
+        (!Array.isArray(transforms) ||
+            transforms.some(t => !SELECTOR_TRANSFORMS.includes(t as SelectorTransform)))
+    ) {
+        throw new Error(
+            `Field "${name}" has invalid "transforms"; allowed values are ${SELECTOR_TRANSFORMS.join(', ')}`
+        );
+    }
+
+    return {
+        selector,
+        attribute,
+        multiple,
+        transforms: transforms as SelectorTransform[] | undefined,
+    };
+};
+
+/**
+ * Parses and validates a selector spec. Throws with a message suitable for
+ * sending back to the generator when the spec is malformed.
+ */
+export function parseSelectorSpec(source: string): SelectorSpec {
+    let data: unknown;
+    try {
+        data = JSON.parse(source);
+    } catch (error) {
+        throw new Error(
+            `Selector spec is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+    }
+
+    const fields = (data as { fields?: unknown } | null)?.fields;
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        throw new Error('Selector spec must have a "fields" object');
+    }
+    if (Object.keys(fields).length === 0) {
+        throw new Error('Selector spec must define at least one field');
+    }
+
+    const validated: Record<string, SelectorFieldSpec> = {};
+    for (const [name, field] of Object.entries(fields)) {
+        validated[name] = validateField(name, field);
+    }
+
+    return { fields: validated };
+}
+
+const extractValue = (
+    $el: { attr(_name: string): string | undefined; text(): string },
+    field: SelectorFieldSpec
+): string | number | null => {
+    const raw = field.attribute ? ($el.attr(field.attribute) ?? null) : $el.text();
+    return (field.transforms || ['trim']).reduce<string | number | null>(applyTransform, raw);
+};
+
+export function runSelectorSpec(
+    $: cheerio.CheerioAPI,
+    spec: SelectorSpec
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [name, field] of Object.entries(spec.fields)) {
+        const matches = $(field.selector);
+
+        if (field.multiple) {
+            result[name] = matches
+                .toArray()
+                .map(element => extractValue($(element), field))
+                .filter(value => value !== null && value !== '');
+        } else {
+            result[name] = matches.length > 0 ? extractValue(matches.first(), field) : null;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,218 @@
+import { ApiError } from '../types/ApiError';
+
+export interface BudgetLimits {
+    // USD, per UTC calendar day and month
+    dailySpendUsd?: number;
+    monthlySpendUsd?: number;
+    // LLM calls per domain per UTC day
+    domainGenerationsPerDay?: number;
+    maxPromptTokens?: number;
+}
+
+export interface BudgetRequest {
+    domain: string;
+    promptTokens: number;
+    // Worst-case cost of the call: the prompt plus the maximum completion
+    estimatedCostUsd: number;
+}
+
+interface PeriodSpend {
+    period: string;
+    spentUsd: number;
+    // Estimated cost of calls in flight
+    reservedUsd: number;
+}
+
+/**
+ * The worst-case cost and generation slot held for a call in flight, from
+ * `reserve` until it is settled with the actual cost or released.
+ */
+export interface BudgetReservation {
+    domain: string;
+    estimatedCostUsd: number;
+    dailyPeriod: string;
+    monthlyPeriod: string;
+    closed: boolean;
+}
+
+const roundUsd = (value: number): number => Math.round(value * 1000000) / 1000000;
+
+const secondsUntilNextUtcDay = (now: Date): number => {
+    const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return Math.ceil((nextDay - now.getTime()) / 1000);
+};
+
+/**
+ * Spend caps and quotas for LLM calls, checked before a request is sent.
+ * Calls reserve their worst-case cost up front, so concurrent calls cannot
+ * all pass the check and overshoot a cap together. Usage is kept in memory:
+ * it starts from zero when the service restarts and is not shared between
+ * processes, so each instance enforces the caps on its own.
+ */
+export class SpendBudget {
+    private limits: BudgetLimits;
+    private now: () => Date;
+    private daily: PeriodSpend = { period: '', spentUsd: 0, reservedUsd: 0 };
+    private monthly: PeriodSpend = { period: '', spentUsd: 0, reservedUsd: 0 };
+    private domainGenerations: Map<string, number> = new Map();
+
+    constructor(limits: BudgetLimits = {}, now: () => Date = () => new Date()) {
+        this.limits = limits;
+        this.now = now;
+    }
+
+    /**
+     * Throws an `ApiError` when the request would exceed a limit: 413 for an
+     * oversized prompt, 429 for a domain over its quota and 402 for an exhausted
+     * spend cap.
+     */
+    check(request: BudgetRequest): void {
+        this.rollPeriods();
+        const { dailySpendUsd, monthlySpendUsd, domainGenerationsPerDay, maxPromptTokens } =
+            this.limits;
+
+        if (maxPromptTokens !== undefined && request.promptTokens > maxPromptTokens) {
+            throw new ApiError(413, {
+                error: `Prompt of ${request.promptTokens} tokens exceeds the limit of ${maxPromptTokens}`,
+                code: 'PROMPT_TOO_LARGE',
+                promptTokens: request.promptTokens,
+                maxPromptTokens,
+            });
+        }
+
+        const domainCount = this.domainGenerations.get(request.domain) || 0;
+        if (domainGenerationsPerDay !== undefined && domainCount >= domainGenerationsPerDay) {
+            throw new ApiError(429, {
+                error: `Daily parser generation limit of ${domainGenerationsPerDay} reached for ${request.domain}`,
+                code: 'DOMAIN_GENERATION_LIMIT',
+                domain: request.domain,
+                retryAfterSeconds: secondsUntilNextUtcDay(this.now()),
+            });
+        }
+
+        for (const [name, spend, limit] of [
+            ['daily', this.daily, dailySpendUsd],
+            ['monthly', this.monthly, monthlySpendUsd],
+        ] as const) {
+            if (
+                limit !== undefined &&
+                spend.spentUsd + spend.reservedUsd + request.estimatedCostUsd > limit
+            ) {
+                throw new ApiError(402, {
+                    error: `The ${name} LLM spend cap of $${limit} is exhausted`,
+                    code: name === 'daily' ? 'DAILY_BUDGET_EXHAUSTED' : 'MONTHLY_BUDGET_EXHAUSTED',
+                    period: spend.period,
+                    spentUsd: roundUsd(spend.spentUsd),
+                    limitUsd: limit,
+                });
+            }
+        }
+    }
+
+    /**
+     * Checks the request like `check` and holds its estimated cost and a
+     * generation slot for its domain until `settle` or `release`.
+     */
+    reserve(request: BudgetRequest): BudgetReservation {
+        this.check(request);
+        this.daily.reservedUsd += request.estimatedCostUsd;
+        this.monthly.reservedUsd += request.estimatedCostUsd;
+        this.domainGenerations.set(
+            request.domain,
+            (this.domainGenerations.get(request.domain) || 0) + 1
+        );
+
+        return {
+            domain: request.domain,
+            estimatedCostUsd: request.estimatedCostUsd,
+            dailyPeriod: this.daily.period,
+            monthlyPeriod: this.monthly.period,
+            closed: false,
+        };
+    }
+
+    // Replaces the reserved estimate with the cost the call actually had
+    settle(reservation: BudgetReservation, costUsd: number): void {
+        if (this.close(reservation)) {
+            this.daily.spentUsd += costUsd;
+            this.monthly.spentUsd += costUsd;
+        }
+    }
+
+    // For a call that cost nothing, which gives its generation slot back too
+    release(reservation: BudgetReservation): void {
+        if (this.close(reservation) && reservation.dailyPeriod === this.daily.period) {
+            const count = (this.domainGenerations.get(reservation.domain) || 1) - 1;
+            if (count > 0) {
+                this.domainGenerations.set(reservation.domain, count);
+            } else {
+                this.domainGenerations.delete(reservation.domain);
+            }
+        }
+    }
+
+    record(domain: string, costUsd: number): void {
+        this.rollPeriods();
+        this.daily.spentUsd += costUsd;
+        this.monthly.spentUsd += costUsd;
+        this.domainGenerations.set(domain, (this.domainGenerations.get(domain) || 0) + 1);
+    }
+
+    getUsage() {
+        this.rollPeriods();
+        const describe = (spend: PeriodSpend, limit?: number) => ({
+            period: spend.period,
+            spentUsd: roundUsd(spend.spentUsd),
+            limitUsd: limit ?? null,
+            remainingUsd:
+                limit === undefined
+                    ? null
+                    : roundUsd(Math.max(0, limit - spend.spentUsd - spend.reservedUsd)),
+        });
+
+        return {
+            daily: describe(this.daily, this.limits.dailySpendUsd),
+            monthly: describe(this.monthly, this.limits.monthlySpendUsd),
+            maxPromptTokens: this.limits.maxPromptTokens ?? null,
+            domainGenerationsPerDay: this.limits.domainGenerationsPerDay ?? null,
+            domainGenerations: Object.fromEntries(this.domainGenerations),
+        };
+    }
+
+    // Drops the reservation from the periods it was made in, once; false if already closed
+    private close(reservation: BudgetReservation): boolean {
+        if (reservation.closed) {
+            return false;
+        }
+        reservation.closed = true;
+        this.rollPeriods();
+
+        // Reservations of a period that has rolled over were dropped with it
+        if (reservation.dailyPeriod === this.daily.period) {
+            this.daily.reservedUsd = Math.max(
+                0,
+                this.daily.reservedUsd - reservation.estimatedCostUsd
+            );
+        }
+        if (reservation.monthlyPeriod === this.monthly.period) {
+            this.monthly.reservedUsd = Math.max(
+                0,
+                this.monthly.reservedUsd - reservation.estimatedCostUsd
+            );
+        }
+        return true;
+    }
+
+    private rollPeriods(): void {
+        const today = this.now().toISOString().substring(0, 10);
+        const month = today.substring(0, 7);
+
+        if (this.daily.period !== today) {
+            this.daily = { period: today, spentUsd: 0, reservedUsd: 0 };
+            this.domainGenerations.clear();
+        }
+        if (this.monthly.period !== month) {
+            this.monthly = { period: month, spentUsd: 0, reservedUsd: 0 };
+        }
+    }
+}
@@ -1,38 +1,160 @@
+import * as fs from 'fs';
+import { LlmUsage } from '../types';
+
+export interface ModelPricing {
+    // USD per 1K tokens
+    input: number;
+    output: number;
+}
+
+export type PricingTable = Record<string, ModelPricing>;
+
+// List prices per 1K tokens. Models are matched by longest prefix, so dated
+// snapshots (e.g. gpt-4o-2024-08-06) use their family's price.
+export const DEFAULT_MODEL_PRICING: PricingTable = {
+    'gpt-4': { input: 0.03, output: 0.06 },
+    'gpt-4-turbo': { input: 0.01, output: 0.03 },
+    'gpt-4o': { input: 0.0025, output: 0.01 },
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+    'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+    'claude-3-5-sonnet': { input: 0.003, output: 0.015 },
+    'claude-3-5-haiku': { input: 0.0008, output: 0.004 },
+    'claude-3-opus': { input: 0.015, output: 0.075 },
+};
+
+// Unknown models, typically local ones, are assumed to be free
+const UNKNOWN_MODEL_PRICING: ModelPricing = { input: 0, output: 0 };
+
+const roundUsd = (value: number): number => Math.round(value * 1000000) / 1000000;
+
+export function getModelPricing(
+    model: string,
+    pricing: PricingTable = DEFAULT_MODEL_PRICING
+): ModelPricing {
+    const match = Object.keys(pricing)
+        .filter(prefix => model.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? pricing[match] : UNKNOWN_MODEL_PRICING;
+}
+
+export const getUsageCost = (usage: LlmUsage, pricing: ModelPricing): number =>
+    (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1000;
+
+/**
+ * Reads a JSON pricing file of the form `{"<model prefix>": {"input": 0.01, "output": 0.03}}`
+ * (USD per 1K tokens). Its entries override and extend the default table.
+ */
+export function loadPricingTable(filePath?: string): PricingTable {
+    if (!filePath) {
+        return DEFAULT_MODEL_PRICING;
+    }
+
+    const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error(`Pricing file ${filePath} must contain a JSON object`);
+    }
+
+    const pricing: PricingTable = { ...DEFAULT_MODEL_PRICING };
+    for (const [model, entry] of Object.entries(data)) {
+        const { input, output } = (entry || {}) as Partial<ModelPricing>;
+        if (typeof input !== 'number' || typeof output !== 'number' || input < 0 || output < 0) {
+            throw new Error(
+                `Pricing for "${model}" in ${filePath} needs non-negative "input" and "output" prices`
+            );
+        }
+        pricing[model] = { input, output };
+    }
+    return pricing;
+}
+
+interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+
+const addUsage = (totals: UsageTotals, usage: LlmUsage, cost: number): void => {
+    totals.requests++;
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.cost += cost;
+};
+
+const describeTotals = (totals: UsageTotals) => ({
+    requests: totals.requests,
+    inputTokens: totals.inputTokens,
+    outputTokens: totals.outputTokens,
+    cost: roundUsd(totals.cost),
+});
+
 export class Stats {
-    private totalInputTokens = 0;
-    private totalOutputTokens = 0;
-    private totalRequests = 0;
+    private pricing: PricingTable;
+    private totals: UsageTotals = emptyTotals();
+    private inputCost = 0;
+    private outputCost = 0;
+    private byModel: Map<string, UsageTotals> = new Map();
+    // Requests that consumed tokens without producing usable output
+    private failed: UsageTotals = emptyTotals();
+
+    constructor(pricing: PricingTable = DEFAULT_MODEL_PRICING) {
+        this.pricing = pricing;
+    }
+
+    /**
+     * Records a request's token usage and returns what it cost.
+     */
+    addRequest(model: string, usage: LlmUsage, failed: boolean = false): number {
+        const pricing = getModelPricing(model, this.pricing);
+        const cost = getUsageCost(usage, pricing);
+
+        this.inputCost += (usage.inputTokens * pricing.input) / 1000;
+        this.outputCost += (usage.outputTokens * pricing.output) / 1000;
+        addUsage(this.totals, usage, cost);
+
+        if (failed) {
+            addUsage(this.failed, usage, cost);
+        } else {
+            const modelTotals = this.byModel.get(model) || emptyTotals();
+            addUsage(modelTotals, usage, cost);
+            this.byModel.set(model, modelTotals);
+        }
 
-    addRequest(inputTokens: number, outputTokens: number): void {
-        this.totalInputTokens += inputTokens;
-        this.totalOutputTokens += outputTokens;
-        this.totalRequests++;
+        return cost;
     }
 
     getAverageInputTokens(): number {
-        return this.totalRequests > 0 ? Math.round(this.totalInputTokens / this.totalRequests) : 0;
+        return this.totals.requests > 0
+            ? Math.round(this.totals.inputTokens / this.totals.requests)
+            : 0;
     }
 
     getAverageOutputTokens(): number {
-        return this.totalRequests > 0 ? Math.round(this.totalOutputTokens / this.totalRequests) : 0;
+        return this.totals.requests > 0
+            ? Math.round(this.totals.outputTokens / this.totals.requests)
+            : 0;
     }
 
     getCostEstimate(): { inputCost: number; outputCost: number; totalCost: number } {
-        const inputCost = (this.totalInputTokens * 0.03) / 1000;
-        const outputCost = (this.totalOutputTokens * 0.06) / 1000;
         return {
-            inputCost: Math.round(inputCost * 1000000) / 1000000,
-            outputCost: Math.round(outputCost * 1000000) / 1000000,
-            totalCost: Math.round((inputCost + outputCost) * 1000000) / 1000000,
+            inputCost: roundUsd(this.inputCost),
+            outputCost: roundUsd(this.outputCost),
+            totalCost: roundUsd(this.inputCost + this.outputCost),
         };
     }
 
     getStats() {
         return {
-            totalRequests: this.totalRequests,
+            totalRequests: this.totals.requests,
             averageInputTokens: this.getAverageInputTokens(),
             averageOutputTokens: this.getAverageOutputTokens(),
             costEstimate: this.getCostEstimate(),
+            byModel: Object.fromEntries(
+                Array.from(this.byModel, ([model, totals]) => [model, describeTotals(totals)])
+            ),
+            failedRequests: describeTotals(this.failed),
         };
     }
 }
@@ -1,24 +1,45 @@
-import { encoding_for_model, TiktokenModel } from 'tiktoken';
-
-export function countTokens(text: string, model: TiktokenModel): number {
-    try {
-        const encoding = encoding_for_model(model);
-        const tokens = encoding.encode(text);
-        return tokens.length;
-    } catch {
+import { encoding_for_model, Tiktoken, TiktokenModel } from 'tiktoken';
+
+const FALLBACK_MODEL: TiktokenModel = 'gpt-3.5-turbo';
+
+const encodings: Map<string, Tiktoken> = new Map();
+
+// Models tiktoken does not know (other providers, local models) are counted with
+// the fallback encoding, which is a close enough approximation for budgeting.
+function getEncoding(model: string): Tiktoken | null {
+    const cached = encodings.get(model);
+    if (cached) {
+        return cached;
+    }
+
+    for (const candidate of [model, FALLBACK_MODEL]) {
+        try {
+            const encoding = encoding_for_model(candidate as TiktokenModel);
+            encodings.set(model, encoding);
+            return encoding;
+        } catch {
+            continue;
+        }
+    }
+
+    return null;
+}
+
+export function countTokens(text: string, model: string): number {
+    const encoding = getEncoding(model);
+    if (encoding) {
         try {
-            const encoding = encoding_for_model('gpt-3.5-turbo');
-            const tokens = encoding.encode(text);
-            return tokens.length;
+            return encoding.encode(text).length;
         } catch {
-            return Math.ceil(text.length / 4);
+            // Falls through to the character-based estimate
         }
     }
+    return Math.ceil(text.length / 4);
 }
 
 export function countRequestTokens(
     messages: Array<{ role: string; content: string }>,
-    model: TiktokenModel
+    model: string
 ): number {
     let totalTokens = 0;
 
@@ -0,0 +1,117 @@
+export interface UrlCanonicalizationOptions {
+    // Drop a leading `www.` from the host
+    stripWww: boolean;
+    // Drop a leading `m.` or `mobile.` from the host
+    stripMobile: boolean;
+    // Lowercase the path too; off by default since paths are case-sensitive
+    lowercasePath: boolean;
+    // File names dropped from the end of the path, compared case-insensitively
+    indexFiles: string[];
+    // Hosts served under another canonical host, such as `example.co.uk` for `example.com`
+    hostAliases: Record<string, string>;
+}
+
+export const DEFAULT_URL_CANONICALIZATION: UrlCanonicalizationOptions = {
+    // Off by default, as stripping changes the pattern and parser of www. and m. hosts
+    stripWww: false,
+    stripMobile: false,
+    lowercasePath: false,
+    indexFiles: [
+        'index.html',
+        'index.htm',
+        'index.php',
+        'index.asp',
+        'index.aspx',
+        'default.asp',
+        'default.aspx',
+    ],
+    hostAliases: {},
+};
+
+const MOBILE_LABELS = ['m', 'mobile'];
+
+const withScheme = (url: string): string => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+// Lowercase ASCII, with internationalized labels in punycode
+const toAsciiHost = (host: string): string => new URL(withScheme(host)).hostname;
+
+/**
+ * Parses `alias=canonical` pairs separated by commas, as given in environment
+ * variables. Hosts may be given in Unicode or punycode.
+ */
+export function parseHostAliases(value?: string): Record<string, string> {
+    const aliases: Record<string, string> = {};
+    for (const pair of (value || '').split(',')) {
+        const [alias, canonical] = pair.split('=').map(host => host.trim());
+        if (!alias || !canonical) {
+            continue;
+        }
+        aliases[toAsciiHost(alias)] = toAsciiHost(canonical);
+    }
+    return aliases;
+}
+
+function canonicalizeHost(hostname: string, options: UrlCanonicalizationOptions): string {
+    const host = hostname.replace(/\.$/, '');
+    if (options.hostAliases[host]) {
+        return options.hostAliases[host];
+    }
+
+    const labels = host.split('.');
+    const strippable = [
+        ...(options.stripWww ? ['www'] : []),
+        ...(options.stripMobile ? MOBILE_LABELS : []),
+    ];
+    // Never strip down to a bare top-level domain
+    while (labels.length > 2 && strippable.includes(labels[0])) {
+        labels.shift();
+    }
+
+    const stripped = labels.join('.');
+    return options.hostAliases[stripped] || stripped;
+}
+
+// The host a URL with this hostname is canonicalized to
+export function canonicalizeHostname(
+    hostname: string,
+    options: UrlCanonicalizationOptions = DEFAULT_URL_CANONICALIZATION
+): string {
+    return canonicalizeHost(toAsciiHost(hostname), options);
+}
+
+function canonicalizePath(pathname: string, options: UrlCanonicalizationOptions): string {
+    // Percent-encodings differing only in case are the same character
+    let path = pathname
+        .replace(/\/{2,}/g, '/')
+        .replace(/%[0-9a-f]{2}/gi, escape => escape.toUpperCase());
+
+    const lastSegment = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+    if (options.indexFiles.some(file => file.toLowerCase() === lastSegment)) {
+        path = path.substring(0, path.lastIndexOf('/') + 1);
+    }
+
+    if (path.length > 1 && path.endsWith('/')) {
+        path = path.slice(0, -1);
+    }
+
+    return options.lowercasePath ? path.toLowerCase() : path;
+}
+
+/**
+ * Rewrites a URL so that addresses of the same page compare equal: the scheme
+ * defaults to https, the host is lowercased, in punycode, stripped of `www.`
+ * and mobile prefixes and resolved through host aliases, and the path loses
+ * index files, duplicate and trailing slashes. The fragment is dropped and the
+ * query is kept. Throws on an invalid URL.
+ */
+export function canonicalizeUrl(
+    url: string,
+    options: UrlCanonicalizationOptions = DEFAULT_URL_CANONICALIZATION
+): string {
+    const urlObj = new URL(withScheme(url.trim()));
+    const host = canonicalizeHost(urlObj.hostname, options);
+    const port = urlObj.port ? `:${urlObj.port}` : '';
+    const path = canonicalizePath(urlObj.pathname, options);
+
+    return `${urlObj.protocol}//${host}${port}${path}${urlObj.search}`;
+}
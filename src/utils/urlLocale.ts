@@ -0,0 +1,81 @@
+// Language codes recognized as a locale in a host label or path prefix
+const LANGUAGE_CODES = new Set([
+    'ar',
+    'cs',
+    'da',
+    'de',
+    'el',
+    'en',
+    'es',
+    'fi',
+    'fr',
+    'he',
+    'hu',
+    'it',
+    'ja',
+    'ko',
+    'nb',
+    'nl',
+    'pl',
+    'pt',
+    'ro',
+    'ru',
+    'sv',
+    'tr',
+    'uk',
+    'zh',
+]);
+
+// Languages of country-code top-level domains, for the languages with a bundled word list
+const TLD_LANGUAGES: Record<string, string[]> = {
+    at: ['de'],
+    be: ['fr'],
+    br: ['pt'],
+    ca: ['en', 'fr'],
+    ch: ['de', 'fr'],
+    de: ['de'],
+    fr: ['fr'],
+    li: ['de'],
+    lu: ['fr', 'de'],
+    pt: ['pt'],
+};
+
+// `fr`, `fr-ca`, `pt_BR`
+const LOCALE_PATTERN = /^([a-z]{2})(?:[-_][a-z]{2})?$/i;
+
+/**
+ * Language of a locale such as `de` or `pt-BR`, when the segment is one,
+ * e.g. the `/fr/` path prefix of a bilingual site.
+ */
+export function getLocaleLanguage(segment: string): string | null {
+    const match = LOCALE_PATTERN.exec(segment);
+    const language = match?.[1].toLowerCase();
+    return language && LANGUAGE_CODES.has(language) ? language : null;
+}
+
+/**
+ * Languages a URL is likely written in, from a language subdomain
+ * (`de.wikipedia.org`), the first path segment (`/fr/...`) and the
+ * country-code top-level domain (`.ca` gives both English and French).
+ */
+export function detectUrlLanguages(urlObj: URL): string[] {
+    const languages: string[] = [];
+    const labels = urlObj.hostname.split('.');
+
+    if (labels.length > 2) {
+        const language = getLocaleLanguage(labels[0]);
+        if (language) {
+            languages.push(language);
+        }
+    }
+
+    const firstSegment = urlObj.pathname.split('/').find(segment => segment.length > 0);
+    const pathLanguage = firstSegment ? getLocaleLanguage(firstSegment) : null;
+    if (pathLanguage) {
+        languages.push(pathLanguage);
+    }
+
+    languages.push(...(TLD_LANGUAGES[labels[labels.length - 1]] || []));
+
+    return Array.from(new Set(languages));
+}
@@ -0,0 +1,118 @@
+import safeRegex from 'safe-regex2';
+import { UrlPatternRule, UrlPatternRuleInput } from '../types';
+
+export interface UrlPatternRuleMatch {
+    rule: UrlPatternRule;
+    pattern: string;
+}
+
+const GROUP_REFERENCE = /\$(\d+)|\$<([A-Za-z_$][\w$]*)>/g;
+
+export function hostMatches(ruleHost: string, hostname: string): boolean {
+    const host = ruleHost.toLowerCase();
+    if (host.startsWith('*.')) {
+        const domain = host.substring(2);
+        return hostname === domain || hostname.endsWith(`.${domain}`);
+    }
+    return hostname === host;
+}
+
+/**
+ * Checks that a rule can be applied: a known host form, a path regex that
+ * compiles without nested quantifiers, which could backtrack for exponential
+ * time on every request, and a template that only refers to groups the regex
+ * defines. Throws an `Error` describing the first problem.
+ */
+export function validateUrlPatternRule(input: Partial<UrlPatternRuleInput>): void {
+    const { host, path, template, description } = input;
+
+    if (typeof host !== 'string' || !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(host)) {
+        throw new Error('host must be a hostname such as example.com or *.example.com');
+    }
+    if (typeof path !== 'string' || !path) {
+        throw new Error('path must be a regular expression');
+    }
+    if (typeof template !== 'string' || (template && !template.startsWith('/'))) {
+        throw new Error('template must be empty or start with /');
+    }
+    if (description !== undefined && typeof description !== 'string') {
+        throw new Error('description must be a string');
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(path);
+    } catch (error) {
+        throw new Error(`path is not a valid regular expression: ${(error as Error).message}`);
+    }
+    if (!safeRegex(regex)) {
+        throw new Error('path has nested quantifiers, which can take exponential time to match');
+    }
+
+    // An empty alternative always matches, which exposes the number of groups
+    const emptyMatch = new RegExp(`${regex.source}|`).exec('');
+    const groupCount = emptyMatch ? emptyMatch.length - 1 : 0;
+    for (const [reference, index, name] of template.matchAll(GROUP_REFERENCE)) {
+        if (index !== undefined && Number(index) > groupCount) {
+            throw new Error(`template refers to ${reference} but path has ${groupCount} groups`);
+        }
+        if (name !== undefined && !(name in (emptyMatch?.groups || {}))) {
+            throw new Error(`template refers to ${reference} but path has no group named ${name}`);
+        }
+    }
+}
+
+/**
+ * The pattern of the first rule matching the URL, or null when no rule applies.
+ */
+export function applyUrlPatternRules(
+    url: URL,
+    rules: UrlPatternRule[]
+): UrlPatternRuleMatch | null {
+    for (const rule of rules) {
+        if (!hostMatches(rule.host, url.hostname)) {
+            continue;
+        }
+
+        const match = new RegExp(rule.path).exec(url.pathname);
+        if (!match) {
+            continue;
+        }
+
+        const path = rule.template.replace(
+            GROUP_REFERENCE,
+            (_reference: string, index?: string, name?: string) =>
+                (index !== undefined ? match[Number(index)] : match.groups?.[name || '']) || ''
+        );
+        return { rule, pattern: `${url.hostname}${path}` };
+    }
+
+    return null;
+}
+
+/**
+ * Whether a stored URL pattern may be produced by the rule, or falls under it:
+ * the host matches and either the path regex matches the pattern's path or the
+ * path has the template's shape.
+ */
+export function ruleCoversPattern(rule: UrlPatternRule, urlPattern: string): boolean {
+    // The query part of a pattern is not covered by rules
+    const [location] = urlPattern.split('?');
+    const slash = location.indexOf('/');
+    const hostname = slash === -1 ? location : location.substring(0, slash);
+    const path = slash === -1 ? '' : location.substring(slash);
+
+    if (!hostMatches(rule.host, hostname)) {
+        return false;
+    }
+    if (new RegExp(rule.path).test(path || '/')) {
+        return true;
+    }
+
+    const templateShape = rule.template
+        .split(GROUP_REFERENCE)
+        .filter((_part, index) => index % 3 === 0)
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*');
+    return new RegExp(`^${templateShape}$`).test(path);
+}
@@ -0,0 +1,209 @@
+/**
+ * - `page-type`: selects a different kind of page (`?action=edit`); kept literally
+ * - `id`: selects a record of the same kind of page (`?id=42`); templated as `{id}`
+ * - `noise`: tracking, pagination, sorting and filters (`utm_source`, `page`); dropped
+ */
+export type QueryParamClass = 'page-type' | 'id' | 'noise';
+
+export interface QueryParamConfig {
+    // Parameter names; a trailing `*` matches any name with that prefix, a leading one any suffix
+    pageType: string[];
+    id: string[];
+    noise: string[];
+    // Template parameters in no list as ids instead of dropping them
+    keepUnknown: boolean;
+}
+
+// Parameters in no list are dropped, so optional filters do not each get their own pattern
+export const DEFAULT_QUERY_PARAM_CONFIG: QueryParamConfig = {
+    pageType: [
+        'action',
+        'do',
+        'type',
+        'view',
+        'mode',
+        'tab',
+        'format',
+        'layout',
+        'display',
+        'template',
+    ],
+    id: [
+        'id',
+        'ids',
+        '*_id',
+        '*-id',
+        'oldid',
+        'curid',
+        'pid',
+        'uid',
+        'cid',
+        'tid',
+        'aid',
+        'v',
+        'slug',
+        'key',
+        'item',
+        'post',
+        'article',
+        'story',
+        'title',
+        'name',
+        'user',
+        'u',
+        'sku',
+        'product',
+        'isbn',
+        'asin',
+    ],
+    noise: [
+        'utm_*',
+        'fbclid',
+        'gclid',
+        'dclid',
+        'msclkid',
+        'yclid',
+        'mc_cid',
+        'mc_eid',
+        'igshid',
+        '_ga',
+        '_gl',
+        'ref',
+        'ref_src',
+        'source',
+        'share',
+        'sid',
+        'sessionid',
+        'phpsessid',
+        'jsessionid',
+        'page',
+        'pg',
+        'p',
+        'start',
+        'limit',
+        'per_page',
+        'page_size',
+        'pagesize',
+        'offset',
+        'count',
+        'sort',
+        'sort_by',
+        'sortby',
+        'order',
+        'order_by',
+        'orderby',
+        'dir',
+        'q',
+        'query',
+        'search',
+        'keywords',
+        'filter*',
+        'facet*',
+        'color',
+        'colour',
+        'size',
+        'brand',
+        'price',
+        'min_price',
+        'max_price',
+        'lang',
+        'hl',
+        'locale',
+        'currency',
+        'cache',
+        'cb',
+        '_',
+    ],
+    keepUnknown: false,
+};
+
+const matchesName = (names: string[], name: string): boolean =>
+    names.some(entry => {
+        if (entry.length > 1 && entry.endsWith('*')) {
+            return name.startsWith(entry.slice(0, -1));
+        }
+        if (entry.length > 1 && entry.startsWith('*')) {
+            return name.endsWith(entry.slice(1));
+        }
+        return name === entry;
+    });
+
+export function classifyQueryParam(
+    name: string,
+    config: QueryParamConfig = DEFAULT_QUERY_PARAM_CONFIG
+): QueryParamClass {
+    const lowerName = name.toLowerCase();
+    if (matchesName(config.noise, lowerName)) {
+        return 'noise';
+    }
+    if (matchesName(config.pageType, lowerName)) {
+        return 'page-type';
+    }
+    if (matchesName(config.id, lowerName) || config.keepUnknown) {
+        return 'id';
+    }
+    return 'noise';
+}
+
+/**
+ * Merges comma-separated parameter names, as given in environment variables,
+ * into the default configuration.
+ */
+export function loadQueryParamConfig(
+    pageType?: string,
+    noise?: string,
+    id?: string,
+    keepUnknown: boolean = DEFAULT_QUERY_PARAM_CONFIG.keepUnknown
+): QueryParamConfig {
+    const split = (value?: string): string[] =>
+        (value || '')
+            .split(',')
+            .map(name => name.trim().toLowerCase())
+            .filter(Boolean);
+
+    return {
+        pageType: [...DEFAULT_QUERY_PARAM_CONFIG.pageType, ...split(pageType)],
+        id: [...DEFAULT_QUERY_PARAM_CONFIG.id, ...split(id)],
+        noise: [...DEFAULT_QUERY_PARAM_CONFIG.noise, ...split(noise)],
+        keepUnknown,
+    };
+}
+
+/**
+ * The query part of a URL pattern, such as `?action=view&id={id}`, or an empty
+ * string when every parameter is noise. Parameters are sorted by name and
+ * repeated ones appear once, so equivalent URLs get the same pattern.
+ */
+export function generateQueryPattern(
+    searchParams: URLSearchParams,
+    config: QueryParamConfig = DEFAULT_QUERY_PARAM_CONFIG
+): string {
+    const parts = new Map<string, string>();
+
+    for (const [name, value] of searchParams) {
+        if (parts.has(name)) {
+            continue;
+        }
+
+        const paramClass = classifyQueryParam(name, config);
+        if (paramClass === 'noise') {
+            continue;
+        }
+
+        const encodedName = encodeURIComponent(name);
+        if (!value) {
+            // A flag such as `?print` changes the page whatever its value
+            parts.set(name, encodedName);
+        } else if (paramClass === 'page-type') {
+            parts.set(name, `${encodedName}=${encodeURIComponent(value.toLowerCase())}`);
+        } else {
+            parts.set(name, `${encodedName}={id}`);
+        }
+    }
+
+    if (parts.size === 0) {
+        return '';
+    }
+    const sorted = Array.from(parts.keys()).sort();
+    return `?${sorted.map(name => parts.get(name)).join('&')}`;
+}
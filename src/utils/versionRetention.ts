@@ -0,0 +1,12 @@
+import { StoredParser } from '../types';
+
+export const DEFAULT_MAX_PARSER_VERSIONS = 20;
+
+/**
+ * The versions a storage keeps, oldest first: the newest `maxVersions`, or all
+ * of them for 0. Version numbers are never reused, so pruning leaves a gap at
+ * the start of the history.
+ */
+export function retainVersions(versions: StoredParser[], maxVersions: number): StoredParser[] {
+    return maxVersions > 0 ? versions.slice(-maxVersions) : versions;
+}
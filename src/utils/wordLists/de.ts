@@ -0,0 +1,260 @@
+// Common German words in URL slugs, with their accents
+export const DE_WORDS = [
+    'startseite',
+    'nachrichten',
+    'aktuell',
+    'aktuelles',
+    'suche',
+    'kontakt',
+    'impressum',
+    'datenschutz',
+    'über',
+    'uns',
+    'produkte',
+    'produkt',
+    'warenkorb',
+    'konto',
+    'anmelden',
+    'registrieren',
+    'abmelden',
+    'hilfe',
+    'kategorie',
+    'kategorien',
+    'rubrik',
+    'sport',
+    'politik',
+    'wirtschaft',
+    'kultur',
+    'gesellschaft',
+    'welt',
+    'deutschland',
+    'ausland',
+    'inland',
+    'gesundheit',
+    'wissen',
+    'wissenschaft',
+    'technik',
+    'digital',
+    'reise',
+    'reisen',
+    'kochen',
+    'rezept',
+    'rezepte',
+    'haus',
+    'garten',
+    'familie',
+    'kinder',
+    'kind',
+    'bildung',
+    'schule',
+    'karriere',
+    'jobs',
+    'job',
+    'stellenangebote',
+    'dienstleistungen',
+    'leistungen',
+    'unternehmen',
+    'firma',
+    'team',
+    'geschichte',
+    'presse',
+    'pressemitteilungen',
+    'pressemitteilung',
+    'veranstaltungen',
+    'veranstaltung',
+    'termine',
+    'kalender',
+    'galerie',
+    'bilder',
+    'bild',
+    'fotos',
+    'videos',
+    'musik',
+    'kino',
+    'film',
+    'filme',
+    'buch',
+    'bücher',
+    'autor',
+    'autoren',
+    'kommentare',
+    'kommentar',
+    'bewertungen',
+    'bewertung',
+    'ratgeber',
+    'tipps',
+    'sommer',
+    'winter',
+    'frühling',
+    'herbst',
+    'jahr',
+    'tag',
+    'tage',
+    'woche',
+    'monat',
+    'nacht',
+    'morgen',
+    'abend',
+    'stadt',
+    'städte',
+    'region',
+    'regionen',
+    'land',
+    'länder',
+    'regierung',
+    'ministerium',
+    'gesetz',
+    'gesetze',
+    'recht',
+    'wahl',
+    'wahlen',
+    'präsident',
+    'preis',
+    'preise',
+    'angebote',
+    'angebot',
+    'kaufen',
+    'verkaufen',
+    'miete',
+    'mieten',
+    'wohnung',
+    'wohnungen',
+    'immobilien',
+    'auto',
+    'autos',
+    'fahrrad',
+    'verkehr',
+    'wetter',
+    'umwelt',
+    'klima',
+    'energie',
+    'wasser',
+    'natur',
+    'tiere',
+    'katze',
+    'hund',
+    'frau',
+    'frauen',
+    'mann',
+    'männer',
+    'mode',
+    'schönheit',
+    'leben',
+    'liebe',
+    'arbeit',
+    'geld',
+    'bank',
+    'versicherung',
+    'versicherungen',
+    'steuern',
+    'rente',
+    'neu',
+    'neue',
+    'neues',
+    'neuen',
+    'groß',
+    'große',
+    'großen',
+    'klein',
+    'kleine',
+    'erste',
+    'ersten',
+    'letzte',
+    'beste',
+    'besten',
+    'wie',
+    'warum',
+    'wann',
+    'was',
+    'wer',
+    'machen',
+    'finden',
+    'alle',
+    'mehr',
+    'weniger',
+    'sehr',
+    'ohne',
+    'mit',
+    'für',
+    'von',
+    'vom',
+    'zum',
+    'zur',
+    'auf',
+    'aus',
+    'bei',
+    'nach',
+    'vor',
+    'gegen',
+    'unter',
+    'zwischen',
+    'der',
+    'die',
+    'das',
+    'den',
+    'dem',
+    'des',
+    'ein',
+    'eine',
+    'einen',
+    'einer',
+    'und',
+    'oder',
+    'im',
+    'in',
+    'am',
+    'an',
+    'ist',
+    'sind',
+    'zu',
+    'fragen',
+    'antworten',
+    'häufige',
+    'barrierefreiheit',
+    'agb',
+    'seite',
+    'seiten',
+    'hauptseite',
+    'spezial',
+    'datei',
+    'benutzer',
+    'diskussion',
+    'portal',
+    'liste',
+    'artikel',
+    'straße',
+    'bahnhof',
+    'berlin',
+    'münchen',
+    'hamburg',
+    'köln',
+    'frankfurt',
+    'stuttgart',
+    'österreich',
+    'schweiz',
+    'europa',
+    'bundesliga',
+    'fußball',
+    'bundestag',
+    'bundesregierung',
+    'gemeinde',
+    'landkreis',
+    'polizei',
+    'feuerwehr',
+    'krankenhaus',
+    'medizin',
+    'krankheit',
+    'impfung',
+    'studium',
+    'universität',
+    'ausbildung',
+    'shop',
+    'versand',
+    'lieferung',
+    'rückgabe',
+    'zahlung',
+    'bestellung',
+    'bestellungen',
+    'sale',
+    'wiki',
+];
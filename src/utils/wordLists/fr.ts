@@ -0,0 +1,312 @@
+// Common French words in URL slugs, with their accents
+export const FR_WORDS = [
+    'accueil',
+    'actualités',
+    'actualité',
+    'article',
+    'articles',
+    'recherche',
+    'contact',
+    'propos',
+    'mentions',
+    'légales',
+    'légal',
+    'politique',
+    'confidentialité',
+    'conditions',
+    'générales',
+    'utilisation',
+    'produits',
+    'produit',
+    'boutique',
+    'panier',
+    'compte',
+    'connexion',
+    'inscription',
+    'aide',
+    'catégorie',
+    'catégories',
+    'rubrique',
+    'rubriques',
+    'sport',
+    'sports',
+    'économie',
+    'culture',
+    'société',
+    'monde',
+    'france',
+    'international',
+    'national',
+    'régions',
+    'région',
+    'santé',
+    'science',
+    'sciences',
+    'technologie',
+    'technologies',
+    'numérique',
+    'voyage',
+    'voyages',
+    'tourisme',
+    'cuisine',
+    'recette',
+    'recettes',
+    'maison',
+    'jardin',
+    'famille',
+    'enfants',
+    'enfant',
+    'éducation',
+    'école',
+    'emploi',
+    'emplois',
+    'offres',
+    'offre',
+    'services',
+    'service',
+    'entreprise',
+    'entreprises',
+    'nous',
+    'qui',
+    'sommes',
+    'équipe',
+    'histoire',
+    'nouvelles',
+    'nouvelle',
+    'presse',
+    'communiqué',
+    'communiqués',
+    'événements',
+    'événement',
+    'agenda',
+    'calendrier',
+    'galerie',
+    'photos',
+    'photo',
+    'vidéos',
+    'vidéo',
+    'musique',
+    'cinéma',
+    'livres',
+    'livre',
+    'auteur',
+    'auteurs',
+    'commentaires',
+    'commentaire',
+    'avis',
+    'guide',
+    'guides',
+    'conseils',
+    'astuces',
+    'été',
+    'hiver',
+    'printemps',
+    'automne',
+    'année',
+    'jour',
+    'jours',
+    'semaine',
+    'mois',
+    'nuit',
+    'matin',
+    'soir',
+    'paris',
+    'ville',
+    'villes',
+    'pays',
+    'gouvernement',
+    'ministère',
+    'loi',
+    'lois',
+    'justice',
+    'élections',
+    'élection',
+    'vote',
+    'président',
+    'prix',
+    'vente',
+    'achat',
+    'location',
+    'immobilier',
+    'voiture',
+    'voitures',
+    'automobile',
+    'vélo',
+    'transport',
+    'transports',
+    'météo',
+    'environnement',
+    'climat',
+    'énergie',
+    'eau',
+    'nature',
+    'animaux',
+    'chat',
+    'chien',
+    'femme',
+    'femmes',
+    'homme',
+    'hommes',
+    'mode',
+    'beauté',
+    'bien',
+    'être',
+    'vie',
+    'amour',
+    'travail',
+    'argent',
+    'banque',
+    'assurance',
+    'impôts',
+    'retraite',
+    'droit',
+    'droits',
+    'lettre',
+    'accessibilité',
+    'plan',
+    'site',
+    'questions',
+    'réponses',
+    'fréquentes',
+    'nouveau',
+    'nouveaux',
+    'grand',
+    'grande',
+    'grands',
+    'petit',
+    'petite',
+    'petits',
+    'premier',
+    'première',
+    'dernier',
+    'dernière',
+    'meilleur',
+    'meilleure',
+    'meilleurs',
+    'comment',
+    'pourquoi',
+    'quand',
+    'faire',
+    'choisir',
+    'trouver',
+    'acheter',
+    'vendre',
+    'savoir',
+    'tout',
+    'tous',
+    'toutes',
+    'autre',
+    'autres',
+    'plus',
+    'moins',
+    'très',
+    'sans',
+    'avec',
+    'pour',
+    'par',
+    'sur',
+    'sous',
+    'dans',
+    'entre',
+    'chez',
+    'vers',
+    'après',
+    'avant',
+    'contre',
+    'le',
+    'la',
+    'les',
+    'un',
+    'une',
+    'des',
+    'du',
+    'de',
+    'au',
+    'aux',
+    'et',
+    'ou',
+    'en',
+    'à',
+    'd',
+    'l',
+    'j',
+    'qu',
+    's',
+    'n',
+    'c',
+    'ce',
+    'cette',
+    'ces',
+    'son',
+    'sa',
+    'ses',
+    'leur',
+    'notre',
+    'votre',
+    'mon',
+    'ma',
+    'mes',
+    'est',
+    'sont',
+    'fait',
+    'faits',
+    'divers',
+    'faits-divers',
+    'planète',
+    'europe',
+    'afrique',
+    'amérique',
+    'asie',
+    'québec',
+    'montréal',
+    'canada',
+    'belgique',
+    'suisse',
+    'lyon',
+    'marseille',
+    'bordeaux',
+    'football',
+    'rugby',
+    'tennis',
+    'cyclisme',
+    'élus',
+    'mairie',
+    'conseil',
+    'municipal',
+    'départemental',
+    'députés',
+    'assemblée',
+    'sénat',
+    'hôpital',
+    'médecine',
+    'maladie',
+    'vaccin',
+    'formation',
+    'université',
+    'universités',
+    'étudiants',
+    'recrutement',
+    'carrière',
+    'carrières',
+    'magasin',
+    'magasins',
+    'collection',
+    'collections',
+    'soldes',
+    'promotions',
+    'promotion',
+    'livraison',
+    'retour',
+    'retours',
+    'paiement',
+    'commande',
+    'commandes',
+    'wiki',
+    'portail',
+    'spécial',
+    'fichier',
+    'utilisateur',
+    'discussion',
+    'modèle',
+    'liste',
+];
@@ -0,0 +1,21 @@
+import { DE_WORDS } from './de';
+import { FR_WORDS } from './fr';
+import { PT_WORDS } from './pt';
+
+// Slugs often drop accents, so `actualites` is as good as `actualités`
+export const stripAccents = (word: string): string => word.normalize('NFD').replace(/\p{M}/gu, '');
+
+const toWordSet = (words: string[]): ReadonlySet<string> =>
+    new Set(words.flatMap(word => [word.normalize('NFC'), stripAccents(word)]));
+
+// Word lists per ISO 639-1 language code; English is covered by the spellchecker
+export const WORD_LISTS: Record<string, ReadonlySet<string>> = {
+    de: toWordSet(DE_WORDS),
+    fr: toWordSet(FR_WORDS),
+    pt: toWordSet(PT_WORDS),
+};
+
+export function isKnownWord(language: string, word: string): boolean {
+    const words = WORD_LISTS[language];
+    return words !== undefined && words.has(word.toLowerCase().normalize('NFC'));
+}
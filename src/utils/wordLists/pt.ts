@@ -0,0 +1,267 @@
+// Common Portuguese words in URL slugs, with their accents
+export const PT_WORDS = [
+    'início',
+    'notícias',
+    'notícia',
+    'pesquisa',
+    'busca',
+    'contato',
+    'contacto',
+    'sobre',
+    'nós',
+    'produtos',
+    'produto',
+    'loja',
+    'carrinho',
+    'conta',
+    'entrar',
+    'sair',
+    'cadastro',
+    'registo',
+    'ajuda',
+    'categoria',
+    'categorias',
+    'secção',
+    'seção',
+    'esporte',
+    'esportes',
+    'desporto',
+    'política',
+    'economia',
+    'cultura',
+    'sociedade',
+    'mundo',
+    'brasil',
+    'portugal',
+    'internacional',
+    'nacional',
+    'saúde',
+    'ciência',
+    'ciências',
+    'tecnologia',
+    'viagem',
+    'viagens',
+    'turismo',
+    'cozinha',
+    'receita',
+    'receitas',
+    'casa',
+    'jardim',
+    'família',
+    'crianças',
+    'criança',
+    'educação',
+    'escola',
+    'emprego',
+    'empregos',
+    'vagas',
+    'serviços',
+    'serviço',
+    'empresa',
+    'empresas',
+    'equipe',
+    'equipa',
+    'história',
+    'imprensa',
+    'eventos',
+    'evento',
+    'agenda',
+    'calendário',
+    'galeria',
+    'fotos',
+    'foto',
+    'vídeos',
+    'vídeo',
+    'música',
+    'cinema',
+    'livro',
+    'livros',
+    'autor',
+    'autores',
+    'comentários',
+    'comentário',
+    'avaliações',
+    'avaliação',
+    'guia',
+    'dicas',
+    'verão',
+    'inverno',
+    'primavera',
+    'outono',
+    'ano',
+    'anos',
+    'dia',
+    'dias',
+    'semana',
+    'mês',
+    'meses',
+    'noite',
+    'manhã',
+    'tarde',
+    'cidade',
+    'cidades',
+    'região',
+    'regiões',
+    'país',
+    'países',
+    'governo',
+    'ministério',
+    'lei',
+    'leis',
+    'justiça',
+    'eleições',
+    'eleição',
+    'presidente',
+    'preço',
+    'preços',
+    'ofertas',
+    'oferta',
+    'venda',
+    'vendas',
+    'compra',
+    'comprar',
+    'vender',
+    'aluguel',
+    'aluguer',
+    'imóveis',
+    'carro',
+    'carros',
+    'bicicleta',
+    'trânsito',
+    'tempo',
+    'previsão',
+    'meio',
+    'ambiente',
+    'clima',
+    'energia',
+    'água',
+    'natureza',
+    'animais',
+    'gato',
+    'cão',
+    'cachorro',
+    'mulher',
+    'mulheres',
+    'homem',
+    'homens',
+    'moda',
+    'beleza',
+    'vida',
+    'amor',
+    'trabalho',
+    'dinheiro',
+    'banco',
+    'seguro',
+    'seguros',
+    'impostos',
+    'aposentadoria',
+    'reforma',
+    'direito',
+    'direitos',
+    'perguntas',
+    'frequentes',
+    'respostas',
+    'privacidade',
+    'termos',
+    'uso',
+    'condições',
+    'acessibilidade',
+    'mapa',
+    'novo',
+    'nova',
+    'novos',
+    'novas',
+    'grande',
+    'grandes',
+    'pequeno',
+    'pequena',
+    'primeiro',
+    'primeira',
+    'último',
+    'última',
+    'melhor',
+    'melhores',
+    'como',
+    'porque',
+    'quando',
+    'fazer',
+    'escolher',
+    'encontrar',
+    'todos',
+    'todas',
+    'mais',
+    'menos',
+    'muito',
+    'sem',
+    'com',
+    'para',
+    'por',
+    'entre',
+    'contra',
+    'após',
+    'antes',
+    'o',
+    'a',
+    'os',
+    'as',
+    'um',
+    'uma',
+    'de',
+    'do',
+    'da',
+    'dos',
+    'das',
+    'no',
+    'na',
+    'nos',
+    'nas',
+    'em',
+    'e',
+    'ou',
+    'ao',
+    'aos',
+    'à',
+    'às',
+    'pelo',
+    'pela',
+    'futebol',
+    'lisboa',
+    'porto',
+    'são',
+    'paulo',
+    'rio',
+    'janeiro',
+    'minas',
+    'gerais',
+    'bahia',
+    'polícia',
+    'hospital',
+    'medicina',
+    'doença',
+    'vacina',
+    'universidade',
+    'estudantes',
+    'formação',
+    'carreira',
+    'carreiras',
+    'entrega',
+    'devolução',
+    'pagamento',
+    'pedido',
+    'pedidos',
+    'promoções',
+    'promoção',
+    'coleção',
+    'coleções',
+    'wiki',
+    'página',
+    'principal',
+    'especial',
+    'ficheiro',
+    'arquivo',
+    'usuário',
+    'utilizador',
+    'discussão',
+    'predefinição',
+    'lista',
+];